@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import ItemHistoryPanel, { ACTOR_LABELS, snapshotLinks, type HistoryEntry, type Snapshot } from '@/components/ItemHistoryPanel';
+import { Button } from "@/components/ui/button";
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from "sonner";
+
+interface DeletedItem extends Pick<HistoryEntry, 'id' | 'actor' | 'changed_at'> {
+  record_id: string;
+  old_row: Snapshot;
+}
+
+// T is the caller's item row type
+interface DeletedItemsPanelProps<T> {
+  schoolId: string;
+  // Room names by id; a deleted item whose room is gone comes back without one (see snapshotLinks)
+  roomNames: Record<string, string>;
+  // Called with the re-inserted item row (and its joined room)
+  onRestored: (item: T) => void;
+}
+
+/**
+ * Items of a school that were deleted and not restored since, newest first,
+ * from their last recorded snapshot. Each keeps its change history and can be
+ * re-inserted under its old id.
+ */
+export default function DeletedItemsPanel<T>({ schoolId, roomNames, onRestored }: DeletedItemsPanelProps<T>) {
+  const [deletedItems, setDeletedItems] = useState<DeletedItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchDeletedItems = async () => {
+    const { data, error } = await supabase
+      .from('change_history')
+      .select('id, record_id, old_row, actor, changed_at')
+      .eq('table_name', 'items')
+      .eq('school_id', schoolId)
+      .eq('operation', 'delete')
+      .order('changed_at', { ascending: false })
+      .order('id', { ascending: false });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    // Only the latest delete of an item counts, and only if it was not restored since
+    const latest = new Map<string, DeletedItem>();
+    for (const entry of (data || []) as DeletedItem[]) {
+      if (!latest.has(entry.record_id)) latest.set(entry.record_id, entry);
+    }
+    const { data: existing, error: existingError } = await supabase
+      .from('items')
+      .select('id')
+      .in('id', [...latest.keys()]);
+    if (existingError) {
+      setError(existingError.message);
+      return;
+    }
+    const restoredIds = new Set((existing || []).map(item => item.id));
+    setDeletedItems([...latest.values()].filter(entry => !restoredIds.has(entry.record_id)));
+  };
+
+  useEffect(() => {
+    fetchDeletedItems();
+  }, [schoolId]);
+
+  const handleRestore = async (entry: DeletedItem) => {
+    const name = String(entry.old_row.name);
+    if (!window.confirm(`Restore "${name}" as it was when it was deleted?`)) {
+      return;
+    }
+    setRestoringId(entry.record_id);
+    const { data, error } = await supabase
+      .from('items')
+      .insert({
+        ...entry.old_row,
+        ...await snapshotLinks(entry.old_row, roomNames),
+        // The restored review status has not been reviewed as of now
+        reviewed_at: null,
+      })
+      .select('*, room:rooms(id, name, building:buildings(id, name))')
+      .single<T>();
+    setRestoringId(null);
+    if (error || !data) {
+      toast.error(`Failed to restore "${name}": ${error?.message}`);
+      return;
+    }
+    toast.success(`Restored "${name}".`);
+    setDeletedItems(prev => prev?.filter(item => item.record_id !== entry.record_id) ?? null);
+    onRestored(data);
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load deleted items: {error}</p>;
+  }
+  if (!deletedItems) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+  if (deletedItems.length === 0) {
+    return <p className="text-xs text-gray-500">No deleted items.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {deletedItems.map(entry => (
+        <li key={entry.record_id} className="rounded border p-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="font-medium">
+                {String(entry.old_row.name)} x{String(entry.old_row.quantity)}
+              </p>
+              <p className="text-xs text-gray-500">
+                Deleted by {ACTOR_LABELS[entry.actor]}, {new Date(entry.changed_at).toLocaleString()}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleRestore(entry)} disabled={restoringId !== null}>
+              {restoringId === entry.record_id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+              Restore
+            </Button>
+          </div>
+          <button
+            className="block text-xs text-blue-600 hover:text-blue-800 mt-1"
+            onClick={() => setHistoryId(historyId === entry.record_id ? null : entry.record_id)}
+          >
+            {historyId === entry.record_id ? 'Hide change history' : 'Change history'}
+          </button>
+          {historyId === entry.record_id && (
+            <div className="mt-2">
+              <ItemHistoryPanel itemId={entry.record_id} roomNames={roomNames} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
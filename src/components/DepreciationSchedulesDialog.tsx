@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { TrendingDown } from 'lucide-react';
+import { toast } from "sonner";
+import { ASSET_CATEGORIES, categoryLabel, findSchedule, type DepreciationMethod, type DepreciationSchedule } from '@/lib/depreciation';
+
+/**
+ * Lets an insurer edit the depreciation curve used for each asset category.
+ * Categories without a saved row show (and save) the built-in default.
+ */
+export default function DepreciationSchedulesDialog() {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<DepreciationSchedule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadSchedules = async () => {
+    const { data, error } = await supabase
+      .from('depreciation_schedules')
+      .select('id, category, method, useful_life_years, salvage_percent, condition_factors');
+    if (error) {
+      toast.error("Failed to load depreciation schedules: " + error.message);
+      return;
+    }
+    const saved = (data || []) as DepreciationSchedule[];
+    setRows(ASSET_CATEGORIES.map(c => ({ ...findSchedule(saved, c.value), category: c.value })));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) loadSchedules();
+  };
+
+  const updateRow = (category: string, changes: Partial<DepreciationSchedule>) => {
+    setRows(prev => prev.map(row => row.category === category ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = async () => {
+    if (rows.some(row => !(row.useful_life_years > 0) || row.salvage_percent < 0 || row.salvage_percent > 1)) {
+      toast.error("Useful life must be above 0 and salvage between 0% and 100%.");
+      return;
+    }
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      toast.error("Not authenticated.");
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase
+      .from('depreciation_schedules')
+      .upsert(rows.map(row => ({
+        insurance_company_id: sessionData.session!.user.id,
+        category: row.category,
+        method: row.method,
+        useful_life_years: row.useful_life_years,
+        salvage_percent: row.salvage_percent,
+        condition_factors: row.condition_factors,
+      })), { onConflict: 'insurance_company_id,category' });
+    setSaving(false);
+    if (error) {
+      toast.error("Failed to save depreciation schedules: " + error.message);
+    } else {
+      toast.success("Depreciation schedules saved. New scans will use them.");
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <TrendingDown className="mr-2 h-4 w-4" />
+          Depreciation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Depreciation Schedules</DialogTitle>
+          <DialogDescription>
+            Actual cash value = replacement cost × age factor × condition factor. The age factor never drops below the salvage floor.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 gap-y-2 items-center py-2 text-sm">
+          <span className="font-medium text-gray-500">Category</span>
+          <span className="font-medium text-gray-500">Curve</span>
+          <span className="font-medium text-gray-500">Life (yrs)</span>
+          <span className="font-medium text-gray-500">Salvage %</span>
+          {rows.map(row => (
+            <div key={row.category} className="contents">
+              <span>{categoryLabel(row.category)}</span>
+              <select
+                aria-label={`Curve for ${row.category}`}
+                value={row.method}
+                onChange={(e) => updateRow(row.category, { method: e.target.value as DepreciationMethod })}
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                <option value="straight_line">Straight line</option>
+                <option value="declining_balance">Declining balance</option>
+              </select>
+              <Input
+                type="number"
+                min={1}
+                aria-label={`Useful life for ${row.category}`}
+                value={row.useful_life_years}
+                onChange={(e) => updateRow(row.category, { useful_life_years: parseFloat(e.target.value) || 0 })}
+                className="w-20 h-9"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                aria-label={`Salvage percent for ${row.category}`}
+                value={Math.round(row.salvage_percent * 100)}
+                onChange={(e) => updateRow(row.category, { salvage_percent: (parseFloat(e.target.value) || 0) / 100 })}
+                className="w-20 h-9"
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving} className="bg-green-600 hover:bg-green-700">
+            {saving ? 'Saving...' : 'Save Schedules'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Loader2 } from 'lucide-react';
+
+interface InferenceRun {
+  id: string;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  scan_mode: string;
+  image_count: number;
+  raw_response: string | null;
+  repair_response: string | null;
+  error_code: string | null;
+  latency_ms: number;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  estimated_cost_usd: number | null;
+  retry_count: number;
+  created_at: string;
+}
+
+/**
+ * How an item's valuation was produced: the model call recorded in
+ * inference_runs, including the model's raw answer.
+ */
+export default function InferenceAuditPanel({ runId }: { runId: string }) {
+  const [run, setRun] = useState<InferenceRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRun = async () => {
+      const { data, error } = await supabase
+        .from('inference_runs')
+        .select('id, provider, model, prompt_version, scan_mode, image_count, raw_response, repair_response, error_code, latency_ms, prompt_tokens, completion_tokens, total_tokens, estimated_cost_usd, retry_count, created_at')
+        .eq('id', runId)
+        .single();
+      if (error) {
+        setError(error.message);
+      } else {
+        setRun(data);
+      }
+    };
+    fetchRun();
+  }, [runId]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load inference record: {error}</p>;
+  }
+  if (!run) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  return (
+    <div className="space-y-2 text-xs text-gray-600">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-3">
+        <span>Analyzed: {new Date(run.created_at).toLocaleString()}</span>
+        <span>Model: {run.model} ({run.provider})</span>
+        <span>Prompt version: {run.prompt_version}</span>
+        <span>Mode: {run.scan_mode}, {run.image_count} photo(s)</span>
+        <span>Latency: {(run.latency_ms / 1000).toFixed(1)}s</span>
+        <span>Retries: {run.retry_count}{run.repair_response !== null && ', JSON repaired'}</span>
+        <span>
+          Tokens: {run.total_tokens !== null ? `${run.total_tokens.toLocaleString()} (${run.prompt_tokens ?? 0} in / ${run.completion_tokens ?? 0} out)` : 'not reported'}
+        </span>
+        {run.estimated_cost_usd !== null && <span>Estimated cost: ${Number(run.estimated_cost_usd).toFixed(4)}</span>}
+      </div>
+      <div>
+        <p className="font-medium">Raw model response</p>
+        <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-2">{run.raw_response ?? 'None'}</pre>
+      </div>
+      {run.repair_response !== null && (
+        <div>
+          <p className="font-medium">Repaired response</p>
+          <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-2">{run.repair_response}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { ASSET_CATEGORIES } from '@/lib/depreciation';
+import { MAX_ITEM_QUANTITY, editsFromItem, validateItemEdits, type EditableItem, type ItemEdits } from '@/lib/itemEdits';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { toast } from "sonner";
+
+interface BuildingRooms {
+  id: string;
+  name: string;
+  rooms: { id: string; name: string }[];
+}
+
+interface ItemEditDialogProps {
+  // The item being edited; the dialog is open while this is set
+  item: EditableItem | null;
+  buildings: BuildingRooms[];
+  onClose: () => void;
+  // Called with validated edits; the caller saves them
+  onSave: (edits: ItemEdits) => void;
+}
+
+// Numbers are kept as typed so a half-entered value doesn't jump around
+interface Draft extends Omit<ItemEdits, 'quantity' | 'estimatedValue'> {
+  quantity: string;
+  estimatedValue: string;
+}
+
+/**
+ * Edits a saved item's name, quantity, value, category, room and notes.
+ */
+export default function ItemEditDialog({ item, buildings, onClose, onSave }: ItemEditDialogProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    const edits = editsFromItem(item);
+    setDraft({ ...edits, quantity: String(edits.quantity), estimatedValue: String(edits.estimatedValue) });
+  }, [item]);
+
+  const updateDraft = (changes: Partial<Draft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const handleSave = () => {
+    if (!item || !draft) return;
+    const edits: ItemEdits = {
+      ...draft,
+      quantity: Number(draft.quantity),
+      estimatedValue: draft.estimatedValue.trim() === '' ? NaN : Number(draft.estimatedValue),
+    };
+    const problem = validateItemEdits(item, edits);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    onSave(edits);
+  };
+
+  // Rooms removed since the item was saved still show as its current room
+  const roomKnown = !draft?.roomId || buildings.some(b => b.rooms.some(r => r.id === draft.roomId));
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Item</DialogTitle>
+          <DialogDescription>
+            Changing the value or category recalculates the actual cash value.
+          </DialogDescription>
+        </DialogHeader>
+        {draft && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="edit-item-name">Name</Label>
+              <Input id="edit-item-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="edit-item-quantity">Quantity</Label>
+                <Input
+                  id="edit-item-quantity"
+                  type="number"
+                  min={1}
+                  max={Math.max(MAX_ITEM_QUANTITY, item?.quantity ?? 0)}
+                  step={1}
+                  value={draft.quantity}
+                  onChange={(e) => updateDraft({ quantity: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-item-value">Replacement value ($ each)</Label>
+                <Input
+                  id="edit-item-value"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.estimatedValue}
+                  onChange={(e) => updateDraft({ estimatedValue: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="edit-item-category">Category</Label>
+                <select
+                  id="edit-item-category"
+                  value={draft.category}
+                  onChange={(e) => updateDraft({ category: e.target.value })}
+                  className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+                >
+                  {!ASSET_CATEGORIES.some(c => c.value === draft.category) && (
+                    <option value={draft.category}>{draft.category}</option>
+                  )}
+                  {ASSET_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-item-room">Room</Label>
+                <select
+                  id="edit-item-room"
+                  value={draft.roomId ?? ''}
+                  onChange={(e) => updateDraft({ roomId: e.target.value || null })}
+                  className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+                >
+                  <option value="">No room</option>
+                  {!roomKnown && <option value={draft.roomId!}>Current room</option>}
+                  {buildings.map(building => (
+                    <optgroup key={building.id} label={building.name}>
+                      {building.rooms.map(room => <option key={room.id} value={room.id}>{room.name}</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-item-notes">Notes</Label>
+              <textarea
+                id="edit-item-notes"
+                value={draft.notes}
+                onChange={(e) => updateDraft({ notes: e.target.value })}
+                rows={3}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700">Save Changes</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
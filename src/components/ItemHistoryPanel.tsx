@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { categoryLabel } from '@/lib/depreciation';
+import { damageLabel } from '@/lib/damage';
+import { Button } from "@/components/ui/button";
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from "sonner";
+
+export type Snapshot = Record<string, unknown>;
+
+export interface HistoryEntry {
+  id: number;
+  operation: 'insert' | 'update' | 'delete';
+  old_row: Snapshot | null;
+  new_row: Snapshot | null;
+  actor: 'insurer' | 'scanner' | 'system';
+  changed_at: string;
+}
+
+// T is the caller's item row type
+interface ItemHistoryPanelProps<T> {
+  itemId: string;
+  // Room names by id, for readable room changes
+  roomNames: Record<string, string>;
+  // Called with the item row (and its joined room) after a restore. Without
+  // it versions cannot be restored, e.g. for a deleted item.
+  onRestored?: (item: T) => void;
+}
+
+export const ACTOR_LABELS: Record<HistoryEntry['actor'], string> = {
+  insurer: 'insurer',
+  scanner: 'school scanner',
+  system: 'system',
+};
+
+const formatMoney = (value: unknown) => value === null || value === undefined ? 'none' : `$${Number(value).toLocaleString()}`;
+
+// Columns shown in the timeline, in display order
+const FIELDS: { key: string; label: string; format?: (value: unknown, roomNames: Record<string, string>) => string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'estimated_value', label: 'Replacement value', format: formatMoney },
+  { key: 'actual_cash_value', label: 'Actual cash value', format: formatMoney },
+  { key: 'estimated_loss', label: 'Estimated loss', format: formatMoney },
+  { key: 'category', label: 'Category', format: value => categoryLabel(String(value)) },
+  { key: 'room_id', label: 'Room', format: (value, roomNames) => value ? roomNames[String(value)] ?? 'a removed room' : 'none' },
+  { key: 'condition', label: 'Condition' },
+  { key: 'age_years', label: 'Age (years)' },
+  { key: 'damage_type', label: 'Damage', format: value => value ? damageLabel(String(value)) : 'none' },
+  { key: 'damage_severity', label: 'Damage severity', format: value => value === null ? 'none' : `${Math.round(Number(value) * 100)}%` },
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'model_number', label: 'Model' },
+  { key: 'serial_number', label: 'Serial' },
+  { key: 'asset_tag', label: 'Asset tag' },
+  { key: 'review_status', label: 'Review status' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// What a restore writes back; ids, links to inference runs and photos stay as they are
+const RESTORABLE_COLUMNS = [
+  'name', 'quantity', 'quantity_source', 'estimated_value', 'value_source', 'catalog_entry_id', 'actual_cash_value', 'estimated_loss',
+  'category', 'room_id', 'condition', 'age_years', 'damage_type', 'damage_severity', 'damage_description',
+  'manufacturer', 'model_number', 'serial_number', 'asset_tag', 'review_status', 'notes',
+];
+
+/**
+ * A snapshot's room and catalog entry, or null for whichever has been deleted
+ * since, as deleting them nulls the link on live items too.
+ */
+export const snapshotLinks = async (snapshot: Snapshot, roomNames: Record<string, string>) => {
+  const roomId = snapshot.room_id;
+  const catalogEntryId = snapshot.catalog_entry_id;
+  let catalogEntryExists = false;
+  if (typeof catalogEntryId === 'string') {
+    const { data } = await supabase.from('price_catalog').select('id').eq('id', catalogEntryId).maybeSingle();
+    catalogEntryExists = !!data;
+  }
+  return {
+    room_id: typeof roomId === 'string' && roomId in roomNames ? roomId : null,
+    catalog_entry_id: catalogEntryExists ? catalogEntryId as string : null,
+  };
+};
+
+const formatValue = (field: typeof FIELDS[number], value: unknown, roomNames: Record<string, string>) => {
+  if (field.format) return field.format(value, roomNames);
+  return value === null || value === undefined || value === '' ? 'none' : String(value);
+};
+
+/**
+ * Every recorded change to an item, newest first, with what each field was
+ * before and after. Any earlier version can be restored; the restore is
+ * itself recorded as a new change.
+ */
+export default function ItemHistoryPanel<T>({ itemId, roomNames, onRestored }: ItemHistoryPanelProps<T>) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const fetchHistory = async () => {
+    const { data, error } = await supabase
+      .from('change_history')
+      .select('id, operation, old_row, new_row, actor, changed_at')
+      .eq('table_name', 'items')
+      .eq('record_id', itemId)
+      .order('changed_at', { ascending: false })
+      .order('id', { ascending: false });
+    if (error) {
+      setError(error.message);
+    } else {
+      setEntries((data || []) as HistoryEntry[]);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [itemId]);
+
+  const handleRestore = async (entry: HistoryEntry) => {
+    if (!entry.new_row || !onRestored) return;
+    if (!window.confirm(`Restore this item to how it was on ${new Date(entry.changed_at).toLocaleString()}?`)) {
+      return;
+    }
+    const snapshot = entry.new_row;
+    setRestoringId(entry.id);
+    const restored = {
+      ...Object.fromEntries(RESTORABLE_COLUMNS.filter(key => key in snapshot).map(key => [key, snapshot[key]])),
+      ...await snapshotLinks(snapshot, roomNames),
+      // The restored review status has not been reviewed as of now
+      reviewed_at: null,
+    };
+    const { data, error } = await supabase
+      .from('items')
+      .update(restored)
+      .eq('id', itemId)
+      .select('*, room:rooms(id, name, building:buildings(id, name))')
+      .single<T>();
+    setRestoringId(null);
+    if (error || !data) {
+      toast.error(`Failed to restore this version: ${error?.message}`);
+      return;
+    }
+    toast.success("Earlier version restored.");
+    onRestored(data);
+    fetchHistory();
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load change history: {error}</p>;
+  }
+  if (!entries) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-500">No recorded changes yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-3 text-xs text-gray-600">
+      {entries.map((entry, index) => {
+        const changed = entry.operation === 'update'
+          ? FIELDS.filter(field => JSON.stringify(entry.old_row?.[field.key] ?? null) !== JSON.stringify(entry.new_row?.[field.key] ?? null))
+          : [];
+        return (
+          <li key={entry.id}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {entry.operation === 'insert' ? 'Saved' : entry.operation === 'update' ? 'Changed' : 'Deleted'} by {ACTOR_LABELS[entry.actor]}, {new Date(entry.changed_at).toLocaleString()}
+              </span>
+              {onRestored && index > 0 && entry.new_row && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleRestore(entry)} disabled={restoringId !== null}>
+                  {restoringId === entry.id ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                  Restore this version
+                </Button>
+              )}
+            </div>
+            {entry.operation === 'insert' && entry.new_row && (
+              <p>
+                {String(entry.new_row.name)} x{String(entry.new_row.quantity)} at {formatMoney(entry.new_row.estimated_value)} each
+              </p>
+            )}
+            {entry.operation === 'update' && (changed.length > 0 ? (
+              <ul>
+                {changed.map(field => (
+                  <li key={field.key}>
+                    {field.label}: <span className="line-through">{formatValue(field, entry.old_row?.[field.key], roomNames)}</span> → {formatValue(field, entry.new_row?.[field.key], roomNames)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>Other details changed.</p>
+            ))}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { parseCsv } from '@/lib/csv';
+import { ASSET_CATEGORIES, categoryLabel } from '@/lib/depreciation';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
+import { BookOpen, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from "sonner";
+
+interface CatalogEntry {
+  id: string;
+  name: string;
+  category: string;
+  unit_price: number;
+  manufacturer: string | null;
+  model_number: string | null;
+  aliases: string[];
+}
+
+type NewCatalogEntry = Omit<CatalogEntry, 'id'>;
+
+const CSV_COLUMNS = 'name,category,unit_price,manufacturer,model_number,aliases';
+
+const parsePrice = (value: string) => {
+  const price = parseFloat(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+/**
+ * Turns CSV rows into catalog entries. Rows without a name or a valid price
+ * are reported back as skipped; unknown categories fall back to general. A
+ * name listed more than once keeps its last row (one upsert cannot write a
+ * name twice) and is reported back as a duplicate.
+ */
+const entriesFromCsv = (text: string): { entries: NewCatalogEntry[]; skipped: number; duplicates: string[] } => {
+  const entries = new Map<string, NewCatalogEntry>();
+  const duplicates = new Set<string>();
+  let skipped = 0;
+  for (const row of parseCsv(text)) {
+    const price = parsePrice(row.unit_price ?? '');
+    if (!row.name || price === null) {
+      skipped++;
+      continue;
+    }
+    if (entries.has(row.name)) {
+      duplicates.add(row.name);
+      // Re-inserted so the entry takes the position of its last row
+      entries.delete(row.name);
+    }
+    entries.set(row.name, {
+      name: row.name,
+      category: ASSET_CATEGORIES.some(c => c.value === row.category) ? row.category : 'general',
+      unit_price: price,
+      manufacturer: row.manufacturer || null,
+      model_number: row.model_number || null,
+      aliases: (row.aliases ?? '').split(';').map(a => a.trim()).filter(Boolean),
+    });
+  }
+  return { entries: [...entries.values()], skipped, duplicates: [...duplicates] };
+};
+
+/**
+ * Insurer-managed price catalog. Detected items that match an entry closely
+ * enough are valued at the catalog price instead of the model's estimate.
+ */
+export default function PriceCatalogDialog() {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState('general');
+  const [newPrice, setNewPrice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadCatalog = async () => {
+    const { data, error } = await supabase
+      .from('price_catalog')
+      .select('id, name, category, unit_price, manufacturer, model_number, aliases')
+      .order('name');
+    if (error) {
+      toast.error("Failed to load price catalog: " + error.message);
+    } else {
+      setEntries(data || []);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) loadCatalog();
+  };
+
+  const saveEntries = async (newEntries: NewCatalogEntry[]) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      toast.error("Not authenticated.");
+      return false;
+    }
+    const userId = sessionData.session.user.id;
+    // Re-uploading a name updates its price rather than duplicating it
+    const { error } = await supabase
+      .from('price_catalog')
+      .upsert(newEntries.map(entry => ({ ...entry, insurance_company_id: userId })), { onConflict: 'insurance_company_id,name' });
+    if (error) {
+      toast.error("Failed to save catalog entries: " + error.message);
+      return false;
+    }
+    await loadCatalog();
+    return true;
+  };
+
+  const handleAddEntry = async () => {
+    const price = parsePrice(newPrice);
+    if (!newName.trim() || price === null) {
+      toast.error("Enter a name and a valid unit price.");
+      return;
+    }
+    setBusy(true);
+    const saved = await saveEntries([{ name: newName.trim(), category: newCategory, unit_price: price, manufacturer: null, model_number: null, aliases: [] }]);
+    setBusy(false);
+    if (saved) {
+      setNewName('');
+      setNewPrice('');
+    }
+  };
+
+  const handleCsvUpload = async (file: File) => {
+    const { entries: parsed, skipped, duplicates } = entriesFromCsv(await file.text());
+    if (parsed.length === 0) {
+      toast.error(`No valid rows found. Expected columns: ${CSV_COLUMNS}`);
+      return;
+    }
+    setBusy(true);
+    const saved = await saveEntries(parsed);
+    setBusy(false);
+    if (saved) {
+      toast.success(`Imported ${parsed.length} catalog entries${skipped ? `, skipped ${skipped} invalid rows` : ''}.`);
+      if (duplicates.length > 0) {
+        toast.warning(`Listed more than once, so only the last row was kept: ${duplicates.join(', ')}`);
+      }
+    }
+  };
+
+  const handleDeleteEntry = async (entry: CatalogEntry) => {
+    const { error } = await supabase.from('price_catalog').delete().match({ id: entry.id });
+    if (error) {
+      toast.error(`Failed to delete ${entry.name}: ${error.message}`);
+    } else {
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <BookOpen className="mr-2 h-4 w-4" />
+          Price Catalog
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Price Catalog</DialogTitle>
+          <DialogDescription>
+            Scanned items that closely match an entry use its unit price instead of the AI estimate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1 flex-1 min-w-[10rem]">
+            <Label htmlFor="catalog-name">Name</Label>
+            <Input id="catalog-name" placeholder="e.g. Lenovo 100e Chromebook" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="catalog-category">Category</Label>
+            <select
+              id="catalog-category"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {ASSET_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="catalog-price">Unit price ($)</Label>
+            <Input id="catalog-price" type="number" min={0} className="w-28" value={newPrice} onChange={(e) => setNewPrice(e.target.value)} />
+          </div>
+          <Button onClick={handleAddEntry} disabled={busy} className="bg-green-600 hover:bg-green-700">
+            <Plus className="mr-2 h-4 w-4" /> Add
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>CSV columns: <code>{CSV_COLUMNS}</code> (aliases separated by ;)</span>
+          <Label htmlFor="catalog-csv" className="cursor-pointer inline-flex items-center text-blue-600 hover:text-blue-800">
+            <Upload className="mr-1 h-4 w-4" /> Upload CSV
+          </Label>
+          <input
+            id="catalog-csv"
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleCsvUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto divide-y">
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No catalog entries yet.</p>
+          ) : entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="font-medium">{entry.name}</p>
+                <p className="text-xs text-gray-500">
+                  {[categoryLabel(entry.category), entry.manufacturer, entry.model_number, entry.aliases.length ? `aka ${entry.aliases.join(', ')}` : null].filter(Boolean).join(' | ')}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="font-semibold">${entry.unit_price.toLocaleString()}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteEntry(entry)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { ASSET_CATEGORIES, categoryLabel } from '@/lib/depreciation';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { FileText } from 'lucide-react';
+import { toast } from "sonner";
+
+interface PromptTemplate {
+  id: string;
+  category: string;
+  version: number;
+  instructions: string;
+  created_at: string;
+}
+
+/**
+ * Per-category valuation instructions added to the scanner's model prompt.
+ * Saving never overwrites: it adds a version, and the newest one is used.
+ */
+export default function PromptTemplatesDialog() {
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [category, setCategory] = useState(ASSET_CATEGORIES[0].value);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Newest first
+  const versionsFor = (list: PromptTemplate[], cat: string) => list.filter(t => t.category === cat);
+
+  const selectCategory = (list: PromptTemplate[], cat: string) => {
+    setCategory(cat);
+    setDraft(versionsFor(list, cat)[0]?.instructions ?? '');
+  };
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('id, category, version, instructions, created_at')
+      .order('version', { ascending: false });
+    if (error) {
+      toast.error("Failed to load prompt templates: " + error.message);
+      return;
+    }
+    setTemplates(data || []);
+    selectCategory(data || [], category);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) loadTemplates();
+  };
+
+  const handleSave = async () => {
+    if (!draft.trim()) {
+      toast.error("Instructions cannot be empty.");
+      return;
+    }
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      toast.error("Not authenticated.");
+      return;
+    }
+    const version = (versionsFor(templates, category)[0]?.version ?? 0) + 1;
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        insurance_company_id: sessionData.session.user.id,
+        category,
+        version,
+        instructions: draft.trim(),
+      })
+      .select('id, category, version, instructions, created_at')
+      .single();
+    setSaving(false);
+    if (error) {
+      toast.error("Failed to save prompt template: " + error.message);
+    } else if (data) {
+      setTemplates(prev => [data, ...prev]);
+      toast.success(`${categoryLabel(category)} instructions saved as version ${version}. New scans will use them.`);
+    }
+  };
+
+  const versions = versionsFor(templates, category);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileText className="mr-2 h-4 w-4" />
+          Prompts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Valuation Prompts</DialogTitle>
+          <DialogDescription>
+            Guidance the AI follows when valuing items in each asset category. Every saved item records the version it was valued with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="template-category">Category</Label>
+            <select
+              id="template-category"
+              value={category}
+              onChange={(e) => selectCategory(templates, e.target.value)}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {ASSET_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </select>
+            <span className="text-sm text-gray-500">
+              {versions.length > 0 ? `Active: version ${versions[0].version}` : 'Using built-in instructions'}
+            </span>
+          </div>
+          <textarea
+            aria-label="Valuation instructions"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            placeholder="e.g. Value library books at the replacement cost of a library-bound copy, not retail paperback prices."
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          {versions.length > 0 && (
+            <div className="max-h-40 overflow-y-auto divide-y text-sm">
+              {versions.map(t => (
+                <div key={t.id} className="flex items-center justify-between py-1">
+                  <span className="truncate mr-2">
+                    <span className="font-medium">v{t.version}</span>
+                    <span className="text-gray-500"> {new Date(t.created_at).toLocaleDateString()} - {t.instructions}</span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(t.instructions)}>Load</Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving} className="bg-green-600 hover:bg-green-700">
+            {saving ? 'Saving...' : 'Save New Version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
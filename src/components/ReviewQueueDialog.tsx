@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { estimateLoss } from '@/lib/damage';
+import { createSignedImageUrls } from '@/lib/itemImages';
+import { categoryLabel, computeActualCashValue, findSchedule, type DepreciationSchedule, type ItemCondition } from '@/lib/depreciation';
+import type { DamageType } from '@/lib/groqClient';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Check, ClipboardCheck, Pencil, X } from 'lucide-react';
+import { toast } from "sonner";
+
+interface ReviewQueueItem {
+  id: string;
+  name: string;
+  estimated_value: number;
+  quantity: number;
+  confidence: number | null;
+  category: string;
+  age_years: number | null;
+  condition: ItemCondition | null;
+  damage_type: DamageType | null;
+  damage_severity: number | null;
+  // Data URL of items saved before photos moved to storage
+  image_url: string | null;
+  thumbnail_path: string | null;
+  school_id: string;
+}
+
+// The adjuster's corrections to a flagged item
+interface Correction {
+  name: string;
+  estimatedValue: number;
+  quantity: number;
+}
+
+interface ReviewQueueDialogProps {
+  schools: { id: string; name: string }[];
+  pendingCount: number;
+  // Called after any decision so school totals can be refreshed
+  onReviewed: () => void;
+}
+
+/**
+ * Items saved below the insurer's confidence threshold, for an adjuster to
+ * accept, correct or reject. Also edits the threshold itself.
+ */
+export default function ReviewQueueDialog({ schools, pendingCount, onReviewed }: ReviewQueueDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [schedules, setSchedules] = useState<DepreciationSchedule[]>([]);
+  const [threshold, setThreshold] = useState(70);
+  const [corrections, setCorrections] = useState<Record<string, Correction>>({});
+  // Signed thumbnail URLs by object path
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+
+  const loadQueue = async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      toast.error("Not authenticated.");
+      return;
+    }
+    const [itemsResult, schedulesResult, settingsResult] = await Promise.all([
+      supabase
+        .from('items')
+        .select('id, name, estimated_value, quantity, confidence, category, age_years, condition, damage_type, damage_severity, image_url, thumbnail_path, school_id')
+        .in('school_id', schools.map(s => s.id))
+        .eq('review_status', 'needs_review')
+        .order('confidence', { ascending: true }),
+      supabase
+        .from('depreciation_schedules')
+        .select('id, category, method, useful_life_years, salvage_percent, condition_factors'),
+      supabase
+        .from('insurer_settings')
+        .select('review_confidence_threshold')
+        .eq('insurance_company_id', sessionData.session.user.id)
+        .maybeSingle(),
+    ]);
+    if (itemsResult.error) {
+      toast.error("Failed to load review queue: " + itemsResult.error.message);
+      return;
+    }
+    setItems(itemsResult.data || []);
+    setImageUrls(await createSignedImageUrls((itemsResult.data || []).flatMap(item => item.thumbnail_path ? [item.thumbnail_path] : [])));
+    setSchedules((schedulesResult.data || []) as DepreciationSchedule[]);
+    if (settingsResult.data) {
+      setThreshold(Math.round(settingsResult.data.review_confidence_threshold * 100));
+    }
+    setCorrections({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) loadQueue();
+  };
+
+  const handleSaveThreshold = async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      toast.error("Not authenticated.");
+      return;
+    }
+    const { error } = await supabase
+      .from('insurer_settings')
+      .upsert({
+        insurance_company_id: sessionData.session.user.id,
+        review_confidence_threshold: Math.min(100, Math.max(0, threshold)) / 100,
+        updated_at: new Date().toISOString(),
+      });
+    if (error) {
+      toast.error("Failed to save review threshold: " + error.message);
+    } else {
+      toast.success(`Scans below ${threshold}% confidence will need review.`);
+    }
+  };
+
+  const resolveItem = async (item: ReviewQueueItem, changes: Record<string, unknown>, message: string) => {
+    const { error } = await supabase
+      .from('items')
+      .update({ ...changes, reviewed_at: new Date().toISOString() })
+      .match({ id: item.id });
+    if (error) {
+      toast.error(`Failed to update "${item.name}": ${error.message}`);
+      return;
+    }
+    toast.success(message);
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    onReviewed();
+  };
+
+  const handleAccept = (item: ReviewQueueItem) =>
+    resolveItem(item, { review_status: 'approved' }, `Accepted "${item.name}".`);
+
+  const handleReject = (item: ReviewQueueItem) =>
+    resolveItem(item, { review_status: 'rejected' }, `Rejected "${item.name}"; it no longer counts toward totals.`);
+
+  const handleSaveCorrection = (item: ReviewQueueItem, correction: Correction) => {
+    if (!correction.name.trim() || !(correction.estimatedValue >= 0) || !(correction.quantity >= 1)) {
+      toast.error("Enter a name, a non-negative value and a quantity of at least 1.");
+      return;
+    }
+    // Valuation depends on the replacement cost, so recompute it from the corrected value
+    const actualCashValue = computeActualCashValue(correction.estimatedValue, item.age_years, item.condition, findSchedule(schedules, item.category));
+    const damage = item.damage_type ? { type: item.damage_type, severity: item.damage_severity ?? 0 } : null;
+    resolveItem(item, {
+      name: correction.name.trim(),
+      estimated_value: correction.estimatedValue,
+      quantity: correction.quantity,
+      ...(correction.quantity !== item.quantity && { quantity_source: 'manual' }),
+      actual_cash_value: actualCashValue,
+      estimated_loss: damage ? estimateLoss(actualCashValue, damage) : null,
+      ...(correction.estimatedValue !== item.estimated_value && { value_source: 'manual' }),
+      review_status: 'approved',
+    }, `Corrected "${correction.name.trim()}".`);
+  };
+
+  const updateCorrection = (id: string, changes: Partial<Correction>) => {
+    setCorrections(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const cancelCorrection = (id: string) => {
+    setCorrections(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const schoolName = (schoolId: string) => schools.find(s => s.id === schoolId)?.name ?? 'Unknown school';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ClipboardCheck className="mr-2 h-4 w-4" />
+          Review Queue{pendingCount > 0 && ` (${pendingCount})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review Queue</DialogTitle>
+          <DialogDescription>
+            Items the model identified with low confidence. Accept them as scanned, correct them, or reject them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="review-threshold">Review items below (% confidence)</Label>
+            <Input id="review-threshold" type="number" min={0} max={100} className="w-28" value={threshold} onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)} />
+          </div>
+          <Button variant="outline" onClick={handleSaveThreshold}>Save Threshold</Button>
+        </div>
+
+        <div className="max-h-[28rem] overflow-y-auto space-y-3">
+          {items.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">Nothing waiting for review.</p>
+          ) : items.map(item => {
+            const correction = corrections[item.id];
+            const imageSrc = item.thumbnail_path ? imageUrls[item.thumbnail_path] : item.image_url;
+            return (
+              <Card key={item.id}>
+                <CardContent className="flex gap-4 p-4">
+                  {imageSrc && (
+                    <img src={imageSrc} alt={item.name} className="w-24 h-24 object-cover rounded" />
+                  )}
+                  <div className="flex-1 space-y-2">
+                    {correction ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Input aria-label="Item name" className="flex-1 min-w-[10rem] h-9" value={correction.name} onChange={(e) => updateCorrection(item.id, { name: e.target.value })} />
+                        <Label htmlFor={`correct-value-${item.id}`} className="text-sm">$</Label>
+                        <Input id={`correct-value-${item.id}`} type="number" min={0} className="w-24 h-9" value={correction.estimatedValue} onChange={(e) => updateCorrection(item.id, { estimatedValue: parseFloat(e.target.value) || 0 })} />
+                        <Label htmlFor={`correct-qty-${item.id}`} className="text-sm">Qty</Label>
+                        <Input id={`correct-qty-${item.id}`} type="number" min={1} className="w-16 h-9" value={correction.quantity} onChange={(e) => updateCorrection(item.id, { quantity: parseInt(e.target.value, 10) || 0 })} />
+                      </div>
+                    ) : (
+                      <>
+                        <h4 className="font-semibold">{item.name}</h4>
+                        <p className="text-sm text-gray-500">
+                          {schoolName(item.school_id)} | {categoryLabel(item.category)} | Quantity: {item.quantity} | Replacement: ${item.estimated_value.toLocaleString()}
+                        </p>
+                      </>
+                    )}
+                    <p className="text-xs text-amber-700">
+                      Confidence: {item.confidence !== null ? `${Math.round(item.confidence * 100)}%` : 'unknown'}
+                    </p>
+                    <div className="flex gap-2">
+                      {correction ? (
+                        <>
+                          <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleSaveCorrection(item, correction)}>
+                            <Check className="mr-1 h-4 w-4" /> Save Correction
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => cancelCorrection(item.id)}>
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleAccept(item)}>
+                            <Check className="mr-1 h-4 w-4" /> Accept
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => updateCorrection(item.id, { name: item.name, estimatedValue: item.estimated_value, quantity: item.quantity })}>
+                            <Pencil className="mr-1 h-4 w-4" /> Correct
+                          </Button>
+                          <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleReject(item)}>
+                            <X className="mr-1 h-4 w-4" /> Reject
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { BrowserMultiFormatReader, BarcodeFormat } from '@zxing/browser';
+import { DecodeHintType } from '@zxing/library';
+
+// Symbologies used on asset-tag labels; fewer formats means faster decoding
+const ASSET_TAG_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.CODE_93,
+  BarcodeFormat.CODABAR,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.UPC_A,
+];
+
+// The same label stays in frame for a while; report it once per window
+const REPEAT_WINDOW_MS = 3000;
+
+/**
+ * Continuously decodes barcodes and QR codes from a playing video element,
+ * entirely in the browser. Returns a function that stops scanning without
+ * touching the video's camera stream.
+ */
+export const startBarcodeScanner = async (
+  video: HTMLVideoElement,
+  onDecode: (text: string) => void
+): Promise<() => void> => {
+  const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.POSSIBLE_FORMATS, ASSET_TAG_FORMATS]]);
+  const reader = new BrowserMultiFormatReader(hints, { delayBetweenScanAttempts: 250 });
+
+  let lastText = '';
+  let lastAt = 0;
+
+  const controls = await reader.decodeFromVideoElement(video, (result) => {
+    // Frames without a code report an error; there is nothing to do for them
+    if (!result) return;
+    const text = result.getText().trim();
+    const now = Date.now();
+    if (!text || (text === lastText && now - lastAt < REPEAT_WINDOW_MS)) return;
+    lastText = text;
+    lastAt = now;
+    onDecode(text);
+  });
+
+  return () => controls.stop();
+};
@@ -0,0 +1,26 @@
+/**
+ * Damage assessment helpers for post-disaster scans. Loss is estimated against
+ * the item's actual cash value, since that is what a pre-loss item was worth.
+ */
+import type { DamageAssessment, DamageType } from './groqClient';
+
+export const DAMAGE_TYPES: { value: DamageType; label: string }[] = [
+  { value: 'none', label: 'No damage' },
+  { value: 'water', label: 'Water' },
+  { value: 'fire', label: 'Fire' },
+  { value: 'smoke', label: 'Smoke' },
+  { value: 'wind', label: 'Wind' },
+  { value: 'structural', label: 'Structural' },
+  { value: 'total_loss', label: 'Total loss' },
+];
+
+export const damageLabel = (type: string) =>
+  DAMAGE_TYPES.find(d => d.value === type)?.label ?? type;
+
+/**
+ * Per-unit loss, rounded to cents. A total loss is always the full value.
+ */
+export const estimateLoss = (actualCashValue: number, damage: DamageAssessment): number => {
+  const severity = damage.type === 'total_loss' ? 1 : damage.type === 'none' ? 0 : damage.severity;
+  return Math.round(actualCashValue * severity * 100) / 100;
+};
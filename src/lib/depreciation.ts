@@ -0,0 +1,89 @@
+/**
+ * Replacement cost (RCV) to actual cash value (ACV) conversion.
+ * Insurers configure one schedule per asset category in the depreciation_schedules
+ * table; categories without a row fall back to DEFAULT_SCHEDULES.
+ */
+
+export type ItemCondition = 'new' | 'good' | 'fair' | 'poor';
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance';
+
+export interface DepreciationSchedule {
+  id?: string;
+  category: string;
+  method: DepreciationMethod;
+  useful_life_years: number;
+  salvage_percent: number;
+  condition_factors: Record<ItemCondition, number>;
+}
+
+export const ITEM_CONDITIONS: ItemCondition[] = ['new', 'good', 'fair', 'poor'];
+
+export const ASSET_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'it_hardware', label: 'IT Hardware' },
+  { value: 'av_equipment', label: 'AV Equipment' },
+  { value: 'furniture', label: 'Furniture' },
+  { value: 'lab_equipment', label: 'Lab Equipment' },
+  { value: 'athletics', label: 'Athletics' },
+  { value: 'library_books', label: 'Library Books' },
+];
+
+const DEFAULT_CONDITION_FACTORS: Record<ItemCondition, number> = { new: 1, good: 0.9, fair: 0.7, poor: 0.45 };
+
+const defaultSchedule = (category: string, useful_life_years: number, method: DepreciationMethod = 'straight_line'): DepreciationSchedule => ({
+  category,
+  method,
+  useful_life_years,
+  salvage_percent: 0.1,
+  condition_factors: DEFAULT_CONDITION_FACTORS,
+});
+
+export const DEFAULT_SCHEDULES: DepreciationSchedule[] = [
+  defaultSchedule('general', 10),
+  defaultSchedule('it_hardware', 5, 'declining_balance'),
+  defaultSchedule('av_equipment', 7),
+  defaultSchedule('furniture', 15),
+  defaultSchedule('lab_equipment', 10),
+  defaultSchedule('athletics', 8),
+  defaultSchedule('library_books', 8),
+];
+
+export const categoryLabel = (category: string) =>
+  ASSET_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+/**
+ * Picks the insurer's schedule for a category, then the built-in default for
+ * it, then the general default.
+ */
+export const findSchedule = (schedules: DepreciationSchedule[], category: string): DepreciationSchedule =>
+  schedules.find(s => s.category === category)
+  ?? DEFAULT_SCHEDULES.find(s => s.category === category)
+  ?? DEFAULT_SCHEDULES[0];
+
+/**
+ * Fraction of RCV remaining after `ageYears` under the schedule's curve,
+ * never below the salvage floor.
+ */
+export const ageFactor = (schedule: DepreciationSchedule, ageYears: number): number => {
+  const age = Math.max(0, ageYears);
+  const remaining = schedule.method === 'declining_balance'
+    ? Math.pow(Math.max(0, 1 - 2 / schedule.useful_life_years), age) // double-declining balance
+    : 1 - age / schedule.useful_life_years;
+  return Math.max(schedule.salvage_percent, remaining);
+};
+
+/**
+ * ACV of one unit, rounded to cents. Unknown age counts as new and unknown
+ * condition as "good".
+ */
+export const computeActualCashValue = (
+  replacementCost: number,
+  ageYears: number | null | undefined,
+  condition: ItemCondition | null | undefined,
+  schedule: DepreciationSchedule
+): number => {
+  const conditionFactor = schedule.condition_factors[condition ?? 'good'] ?? 1;
+  const acv = replacementCost * ageFactor(schedule, ageYears ?? 0) * conditionFactor;
+  return Math.round(acv * 100) / 100;
+};
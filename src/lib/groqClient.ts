@@ -1,82 +1,296 @@
 // Updated to use Supabase Edge Function for secure API calls
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from './supabaseClient';
+import { InferenceError, InferenceTimeoutError, InferenceUpstreamError, createInferenceError, inferenceErrorFromResponse, type InferenceErrorCode } from './inferenceErrors';
 
 // VITE_GROQ_API_KEY should be set in .env for client-side calls.
 // For production, consider proxying through a Supabase Edge Function to protect the key.
 const VITE_GROQ_API_KEY = import.meta.env.VITE_GROQ_API_KEY;
 
 if (!VITE_GROQ_API_KEY) {
-  console.warn("Groq API Key (VITE_GROQ_API_KEY) is missing for client-side use. Mock data will be used.");
+  console.warn("Groq API Key (VITE_GROQ_API_KEY) is missing for client-side use. Inference runs in the groq-inference Edge Function; set VISION_PROVIDER=mock there to use fixture data without a key.");
 } else {
   console.log("Groq API Key found:", VITE_GROQ_API_KEY ? `${VITE_GROQ_API_KEY.substring(0, 10)}...` : 'undefined');
 }
 
-interface GroqInferenceResult {
+// inventory: identify and value; damage: also classify post-disaster damage
+export type ScanMode = 'inventory' | 'damage';
+
+export type DamageType = 'none' | 'water' | 'fire' | 'smoke' | 'wind' | 'structural' | 'total_loss';
+
+export interface DamageAssessment {
+  type: DamageType;
+  // 0 = undamaged, 1 = destroyed
+  severity: number;
+  description?: string;
+}
+
+// Normalized to the captured image: x/y is the top-left corner, all values 0-1
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Text read off labels and plates; each is omitted when not legible
+export interface LabelFields {
+  manufacturer?: string;
+  modelNumber?: string;
+  serialNumber?: string;
+  assetTag?: string;
+}
+
+// Set when the insurer's price catalog supplied the value instead of the model
+export interface PricingFields {
+  valueSource?: 'catalog' | 'model';
+  catalogEntryId?: string;
+  catalogEntryName?: string;
+  catalogMatchScore?: number;
+  // The model's own estimate, kept when a catalog price replaced it
+  modelEstimatedValue?: number;
+}
+
+// One model's answer for the main item when two models were asked, priced
+// and flagged for review on its own
+export interface EnsembleCandidate extends PricingFields {
+  provider: string;
+  model: string;
+  promptVariant: string;
   itemName: string;
   estimatedValue: number;
-  detectedObjects: Array<{
+  confidence: number;
+  count?: number;
+  category?: string;
+  inferenceRunId?: string;
+  needsReview?: boolean;
+}
+
+export interface EnsembleOutcome {
+  // Names or values differ beyond the server's tolerance; the surveyor picks one
+  disagreement: boolean;
+  reasons: ('name' | 'value')[];
+  // The primary model's answer first
+  candidates: EnsembleCandidate[];
+}
+
+export interface GroqInferenceResult extends LabelFields, PricingFields {
+  itemName: string;
+  estimatedValue: number;
+  confidence: number;
+  // Identical instances of the main item the model counted
+  count?: number;
+  // Asset category the main item was valued under, picked by the surveyor or the model
+  category?: string;
+  // Insurer prompt template used for that category; version 0 is the built-in one
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  // Below the insurer's review threshold; such items are saved as needs_review
+  needsReview?: boolean;
+  reviewThreshold?: number;
+  // Audit record of this inference; saved on every item created from it
+  inferenceRunId?: string;
+  // Reused from an identical or near-identical earlier photo at this school
+  cached?: boolean;
+  cachedAt?: string;
+  // Present when a second model was consulted
+  ensemble?: EnsembleOutcome;
+  boundingBox?: BoundingBox;
+  // Only present in damage mode
+  damage?: DamageAssessment;
+  detectedObjects: Array<LabelFields & PricingFields & {
     name: string;
     estimatedValue: number;
     confidence: number;
+    count?: number;
+    needsReview?: boolean;
+    boundingBox?: BoundingBox;
+    damage?: DamageAssessment;
   }>;
 }
 
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000; // 1 second
+// Who is asking. The scanner page sends its school's admin access key; a
+// signed-in insurer sends the school id and is identified by their session.
+export interface InferenceAccess {
+  schoolId?: string;
+  adminAccessKey?: string;
+}
+
+export type InferenceJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// What the Edge Function reports for a job request and each poll
+interface InferenceJobState {
+  jobId: string;
+  status: InferenceJobStatus;
+  result?: GroqInferenceResult;
+  error?: { code: InferenceErrorCode; message: string; retryAfterSeconds?: number };
+}
+
+export interface InferenceOptions {
+  // An asset category selecting the insurer's valuation instructions; 'auto'
+  // (the default) lets the model classify the item first
+  category?: string;
+  // Also ask a second model and flag disagreements; costs a second model call
+  ensemble?: boolean;
+}
+
+// Angles of one item sent together in one request; matches the Edge Function limit
+export const MAX_IMAGES_PER_INFERENCE = 4;
+
+// Vision calls that need a JSON repair take ~20s; past this an attempt is abandoned
+const ATTEMPT_TIMEOUT_MS = 45_000;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A longer Retry-After is surfaced to the surveyor instead of waited out
+const MAX_RETRY_AFTER_MS = 15_000;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+// Matches the function's stale-job cutoff, plus a little slack
+const JOB_TIMEOUT_MS = 190_000;
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/groq-inference`;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Exponential backoff with jitter, so scanners that failed together do not retry together
+const backoffDelay = (retry: number) => {
+  const base = BASE_RETRY_DELAY_MS * Math.pow(2, retry - 1);
+  return base / 2 + Math.random() * base / 2;
+};
+
 /**
- * Performs image inference using Groq's Llava vision model via Supabase Edge Function.
- * This approach keeps API keys secure on the server-side and handles CORS properly.
+ * One call to the Edge Function, aborted after ATTEMPT_TIMEOUT_MS. Calls fetch
+ * directly rather than supabase.functions.invoke, which cannot be aborted.
  */
-export const inferImageWithGroq = async (imageDataUrl: string): Promise<GroqInferenceResult> => {
-  let lastError: Error | null = null;
-  
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+const invokeOnce = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+  try {
+    let response: Response;
     try {
-      if (attempt > 0) {
-        // Exponential backoff
-        const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
-        console.log(`Retry attempt ${attempt + 1}/${MAX_RETRIES} after ${delay}ms delay`);
-        await sleep(delay);
+      response = await fetch(FUNCTION_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: SUPABASE_ANON_KEY,
+          Authorization: `Bearer ${sessionData.session?.access_token ?? SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new InferenceTimeoutError('timeout', `No response within ${ATTEMPT_TIMEOUT_MS / 1000}s`);
       }
+      throw new InferenceUpstreamError('provider_error', `Could not reach the Edge Function: ${(error as Error).message}`);
+    }
 
-      console.log(`Calling Supabase Edge Function (attempt ${attempt + 1}/${MAX_RETRIES})...`);
-      
-      // Call the Supabase Edge Function
-      const { data, error } = await supabase.functions.invoke('groq-inference', {
-        body: {
-          imageDataUrl: imageDataUrl
-        }
-      });
+    if (!response.ok) {
+      throw await inferenceErrorFromResponse(response);
+    }
+    // The Edge Function returns the result or job state directly
+    return await response.json() as T;
+  } finally {
+    clearTimeout(timer);
+  }
+};
 
-      if (error) {
-        console.error('Supabase Edge Function error:', error);
-        throw new Error(`Edge Function error: ${error.message}`);
-      }
+/**
+ * Runs `call` until it succeeds or fails for good. Only transient failures
+ * (upstream errors and timeouts) are retried; every other failure is thrown at
+ * once as its InferenceError subclass.
+ */
+const withRetries = async <T>(call: (attempt: number) => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      console.log(`Calling Supabase Edge Function (attempt ${attempt + 1}/${MAX_ATTEMPTS})...`);
+      return await call(attempt);
+    } catch (error) {
+      console.error(`Error during Groq inference (attempt ${attempt + 1}/${MAX_ATTEMPTS}):`, error);
+      const inferenceError = error instanceof InferenceError
+        ? error
+        : new InferenceUpstreamError('internal_error', (error as Error).message);
 
-      if (!data) {
-        throw new Error('No data returned from Edge Function');
+      const retryAfterMs = inferenceError.retryAfterMs ?? 0;
+      if (!inferenceError.retryable || attempt === MAX_ATTEMPTS - 1 || retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw inferenceError;
       }
+      const delay = Math.max(retryAfterMs, backoffDelay(attempt + 1));
+      console.log(`Retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+};
 
-      // The Edge Function returns the result directly
-      return data as GroqInferenceResult;
+/**
+ * Performs image inference via the groq-inference Supabase Edge Function. All
+ * images are angles of the same item and are analyzed in a single model call.
+ * The function picks its vision provider (Groq, an OpenAI-compatible endpoint or
+ * the offline mock) from server-side config, so API keys never reach the browser.
+ * The function checks `access` server-side and rejects unknown callers (401)
+ * and callers over their rate limit or daily quota (429).
+ */
+export const inferImageWithGroq = (imageDataUrls: string[], mode: ScanMode, access: InferenceAccess, options: InferenceOptions = {}): Promise<GroqInferenceResult> =>
+  withRetries(attempt => invokeOnce<GroqInferenceResult>({
+    imageDataUrls,
+    mode,
+    category: options.category ?? 'auto',
+    ensemble: options.ensemble ?? false,
+    schoolId: access.schoolId,
+    adminAccessKey: access.adminAccessKey,
+    attempt
+  }));
 
-    } catch (error) {
-      console.error(`Error during Groq inference (attempt ${attempt + 1}/${MAX_RETRIES}):`, error);
-      lastError = error as Error;
-      
-      // On last attempt, throw the error
-      if (attempt === MAX_RETRIES - 1) {
-        throw new Error(`Failed to reach Groq API after ${MAX_RETRIES} attempts. Last error: ${lastError.message}`);
+/**
+ * Like inferImageWithGroq, but as a background job: the function answers with
+ * a job id at once, so slow analyses are not cut off by request timeouts.
+ * Polls until the job finishes, reporting each status to `onStatus`, and
+ * throws the job's failure as its InferenceError subclass. Submit retries
+ * share one idempotency key, so a submit that timed out after the job was
+ * created does not start a second analysis.
+ */
+export const inferImageAsJob = async (
+  imageDataUrls: string[],
+  mode: ScanMode,
+  access: InferenceAccess,
+  options: InferenceOptions = {},
+  onStatus?: (status: InferenceJobStatus) => void
+): Promise<GroqInferenceResult> => {
+  const accessFields = { schoolId: access.schoolId, adminAccessKey: access.adminAccessKey };
+  const idempotencyKey = uuidv4();
+  let state = await withRetries(attempt => invokeOnce<InferenceJobState>({
+    imageDataUrls,
+    mode,
+    category: options.category ?? 'auto',
+    ensemble: options.ensemble ?? false,
+    ...accessFields,
+    attempt,
+    async: true,
+    idempotencyKey
+  }));
+  console.log(`Inference job ${state.jobId} queued`);
+
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  for (;;) {
+    onStatus?.(state.status);
+    if (state.status === 'succeeded') {
+      if (!state.result) {
+        throw createInferenceError('invalid_response', `Job ${state.jobId} succeeded without a result`);
       }
-      // Otherwise, continue to next retry attempt
+      return state.result;
+    }
+    if (state.status === 'failed') {
+      const error = state.error ?? { code: 'internal_error' as const, message: 'Inference failed' };
+      throw createInferenceError(error.code, error.message, {
+        retryAfterMs: error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : undefined
+      });
     }
+    if (Date.now() > deadline) {
+      throw new InferenceTimeoutError('timeout', `Job ${state.jobId} did not finish within ${JOB_TIMEOUT_MS / 1000}s`);
+    }
+    await sleep(JOB_POLL_INTERVAL_MS);
+    state = await withRetries(() => invokeOnce<InferenceJobState>({ jobId: state.jobId, ...accessFields }));
   }
-
-  // This should never be reached due to the throw in the last retry attempt
-  throw new Error('Unexpected error in retry loop');
 };
-
- 
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Prepares captured photos before anything is spent on them: upright,
+ * downscaled and re-encoded once, with a quick check for shots too blurry or
+ * dark to value. The returned data URL is the one sent to the model and the
+ * one uploaded to storage.
+ */
+
+// Longest side sent to the model and stored; enough to read labels and serial plates
+const TARGET_SIZE = 1280;
+const JPEG_QUALITY = 0.8;
+
+// Quality checks run on a small grayscale copy, which also evens out sensor noise
+const ANALYSIS_SIZE = 320;
+// Variance of the Laplacian below this reads as out of focus or motion-blurred
+const BLUR_THRESHOLD = 60;
+// Mean luminance (0-255) below this is too dark to identify the item
+const DARKNESS_THRESHOLD = 45;
+
+export type ImageQualityIssue = 'blurry' | 'dark';
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  issues: ImageQualityIssue[];
+}
+
+export const describeQualityIssues = (issues: ImageQualityIssue[]): string =>
+  issues.map(issue => issue === 'blurry' ? 'blurry' : 'too dark').join(' and ');
+
+const drawScaled = (image: ImageBitmap, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toGrayscale = (canvas: HTMLCanvasElement): Float32Array => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Blur and darkness checks on a grayscale copy: variance of the 4-neighbour
+ * Laplacian for sharpness, mean luminance for exposure.
+ */
+const detectIssues = (image: ImageBitmap): ImageQualityIssue[] => {
+  const canvas = drawScaled(image, ANALYSIS_SIZE);
+  const { width, height } = canvas;
+  const gray = toGrayscale(canvas);
+
+  const luminance = gray.reduce((sum, value) => sum + value, 0) / gray.length;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const variance = count > 0 ? sumSquares / count - (sum / count) ** 2 : 0;
+
+  const issues: ImageQualityIssue[] = [];
+  if (variance < BLUR_THRESHOLD) issues.push('blurry');
+  if (luminance < DARKNESS_THRESHOLD) issues.push('dark');
+  return issues;
+};
+
+/**
+ * Decodes a captured image upright (applying any EXIF orientation), scales it
+ * to at most TARGET_SIZE on its longest side, re-encodes it as JPEG and flags
+ * quality problems.
+ */
+export const preprocessImage = async (source: string | Blob): Promise<PreprocessedImage> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const image = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  try {
+    const canvas = drawScaled(image, TARGET_SIZE);
+    return {
+      dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+      width: canvas.width,
+      height: canvas.height,
+      issues: detectIssues(image),
+    };
+  } finally {
+    image.close();
+  }
+};
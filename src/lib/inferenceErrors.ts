@@ -0,0 +1,151 @@
+/**
+ * Typed failures of inferImageWithGroq. Each subclass is one kind of failure
+ * the scanner reacts to differently; only upstream failures and timeouts are
+ * transient and worth retrying.
+ */
+
+// Failure reasons reported by the groq-inference Edge Function in its error body
+export type InferenceErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'budget_exceeded'
+  | 'config_error'
+  | 'provider_error'
+  | 'parse_error'
+  | 'truncated_response'
+  | 'invalid_response'
+  | 'no_asset_found'
+  | 'internal_error'
+  // Client-side only: the attempt did not finish in time
+  | 'timeout';
+
+export type InferenceErrorKind = 'auth' | 'quota' | 'bad_input' | 'no_asset' | 'parse' | 'upstream' | 'timeout' | 'config';
+
+export abstract class InferenceError extends Error {
+  abstract readonly kind: InferenceErrorKind;
+  code: InferenceErrorCode;
+  // HTTP status of the function response, when there was one
+  status?: number;
+  // From the Retry-After header
+  retryAfterMs?: number;
+
+  constructor(code: InferenceErrorCode, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'InferenceError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// No valid insurer session or admin access key
+export class InferenceAuthError extends InferenceError {
+  readonly kind = 'auth';
+}
+
+// Rate limit, daily quota or monthly budget hit. Not retried: waiting out a quota in a loop
+// only spends more of it
+export class InferenceQuotaError extends InferenceError {
+  readonly kind = 'quota';
+}
+
+// The request itself was rejected, e.g. an unreadable or oversized photo
+export class InferenceBadInputError extends InferenceError {
+  readonly kind = 'bad_input';
+}
+
+// The model answered but found nothing worth valuing in the photo
+export class InferenceNoAssetError extends InferenceError {
+  readonly kind = 'no_asset';
+}
+
+// The model's answer could not be turned into a result; the server has
+// already re-prompted it once
+export class InferenceParseError extends InferenceError {
+  readonly kind = 'parse';
+}
+
+// The server is missing credentials or configuration
+export class InferenceConfigError extends InferenceError {
+  readonly kind = 'config';
+}
+
+// The model provider, the function or the network failed
+export class InferenceUpstreamError extends InferenceError {
+  readonly kind = 'upstream';
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class InferenceTimeoutError extends InferenceError {
+  readonly kind = 'timeout';
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+type InferenceErrorClass = new (code: InferenceErrorCode, message: string, options?: { status?: number; retryAfterMs?: number }) => InferenceError;
+
+const CLASS_BY_CODE: Record<InferenceErrorCode, InferenceErrorClass> = {
+  bad_request: InferenceBadInputError,
+  unauthorized: InferenceAuthError,
+  rate_limited: InferenceQuotaError,
+  quota_exceeded: InferenceQuotaError,
+  budget_exceeded: InferenceQuotaError,
+  config_error: InferenceConfigError,
+  provider_error: InferenceUpstreamError,
+  parse_error: InferenceParseError,
+  truncated_response: InferenceParseError,
+  invalid_response: InferenceParseError,
+  no_asset_found: InferenceNoAssetError,
+  internal_error: InferenceUpstreamError,
+  timeout: InferenceTimeoutError,
+};
+
+// For responses without a JSON `code`, e.g. from the gateway in front of the function
+const codeForStatus = (status: number): InferenceErrorCode => {
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 402) return 'budget_exceeded';
+  if (status === 429) return 'rate_limited';
+  if (status >= 400 && status < 500) return 'bad_request';
+  return 'provider_error';
+};
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const createInferenceError = (code: InferenceErrorCode, message: string, options: { status?: number; retryAfterMs?: number } = {}): InferenceError =>
+  new (CLASS_BY_CODE[code] ?? InferenceUpstreamError)(code, message, options);
+
+/**
+ * Builds the error for a non-2xx function response, preferring the `code`
+ * from its JSON error body over the bare status.
+ */
+export const inferenceErrorFromResponse = async (response: Response): Promise<InferenceError> => {
+  const options = { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) };
+  let body: { code?: InferenceErrorCode; error?: string } | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Body was not JSON; classify by status alone
+  }
+  const code = body?.code && body.code in CLASS_BY_CODE ? body.code : codeForStatus(response.status);
+  return createInferenceError(code, body?.error || `Edge Function returned ${response.status}`, options);
+};
@@ -0,0 +1,97 @@
+/**
+ * Edits to saved items, shared by the dashboard and the scanner summary.
+ * Valuation fields derived from the replacement cost are recomputed here so
+ * both places save the same thing.
+ */
+import { estimateLoss } from './damage';
+import { computeActualCashValue, findSchedule, type DepreciationSchedule, type ItemCondition } from './depreciation';
+import type { DamageType } from './groqClient';
+
+// The most a single item row can count; matches what the model may report
+export const MAX_ITEM_QUANTITY = 500;
+
+// The saved columns an edit reads
+export interface EditableItem {
+  name: string;
+  quantity: number;
+  estimated_value: number;
+  category: string;
+  room_id: string | null;
+  notes: string | null;
+  age_years: number | null;
+  condition: ItemCondition | null;
+  damage_type: string | null;
+  damage_severity: number | null;
+}
+
+export interface ItemEdits {
+  name: string;
+  quantity: number;
+  estimatedValue: number;
+  category: string;
+  roomId: string | null;
+  notes: string;
+}
+
+// Columns written back for an edit
+export interface ItemUpdate {
+  name: string;
+  quantity: number;
+  quantity_source?: 'manual';
+  estimated_value: number;
+  value_source?: 'manual';
+  actual_cash_value?: number;
+  estimated_loss?: number | null;
+  category: string;
+  room_id: string | null;
+  notes: string | null;
+}
+
+export const editsFromItem = (item: EditableItem): ItemEdits => ({
+  name: item.name,
+  quantity: item.quantity,
+  estimatedValue: item.estimated_value,
+  category: item.category,
+  roomId: item.room_id,
+  notes: item.notes ?? '',
+});
+
+/**
+ * The first problem with the edits, or null when they can be saved. The
+ * quantity cap only applies to a changed quantity, so items saved above it
+ * can still have their other fields corrected.
+ */
+export const validateItemEdits = (item: EditableItem, edits: ItemEdits): string | null => {
+  if (!edits.name.trim()) return "Name cannot be empty.";
+  if (!Number.isInteger(edits.quantity) || edits.quantity < 1) return "Quantity must be a whole number of at least 1.";
+  if (edits.quantity !== item.quantity && edits.quantity > MAX_ITEM_QUANTITY) {
+    return `Quantity can be at most ${MAX_ITEM_QUANTITY}.`;
+  }
+  if (!Number.isFinite(edits.estimatedValue) || edits.estimatedValue < 0) return "Value must be a non-negative amount.";
+  return null;
+};
+
+/**
+ * Columns to update for valid edits. ACV and loss are recomputed only when the
+ * value or category changes, so other edits keep an adjuster's loss figure; a
+ * changed value or quantity is marked as entered by a person.
+ */
+export const itemUpdateFor = (item: EditableItem, edits: ItemEdits, schedules: DepreciationSchedule[]): ItemUpdate => {
+  const estimatedValue = Math.round(edits.estimatedValue * 100) / 100;
+  const update: ItemUpdate = {
+    name: edits.name.trim(),
+    quantity: edits.quantity,
+    ...(edits.quantity !== item.quantity && { quantity_source: 'manual' as const }),
+    estimated_value: estimatedValue,
+    ...(estimatedValue !== item.estimated_value && { value_source: 'manual' as const }),
+    category: edits.category,
+    room_id: edits.roomId,
+    notes: edits.notes.trim() || null,
+  };
+  if (estimatedValue !== item.estimated_value || edits.category !== item.category) {
+    update.actual_cash_value = computeActualCashValue(estimatedValue, item.age_years, item.condition, findSchedule(schedules, edits.category));
+    const damage = item.damage_type ? { type: item.damage_type as DamageType, severity: item.damage_severity ?? 0 } : null;
+    update.estimated_loss = damage ? estimateLoss(update.actual_cash_value, damage) : null;
+  }
+  return update;
+};
@@ -0,0 +1,94 @@
+import { supabase } from './supabaseClient';
+
+// Private bucket; objects are stored under "<school id>/" (see the item_image_storage migration)
+export const ITEM_IMAGES_BUCKET = 'item-images';
+
+// Longest side of list thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Signed URLs outlive a dashboard session comfortably without being shareable for long
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface StoredImage {
+  imagePath: string;
+  thumbnailPath: string;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the captured image'));
+    image.src = src;
+  });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+/**
+ * A JPEG no larger than THUMBNAIL_SIZE on its longest side.
+ */
+export const createThumbnail = async (dataUrl: string): Promise<Blob> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail')), 'image/jpeg', THUMBNAIL_QUALITY);
+  });
+};
+
+/**
+ * Uploads a captured photo and its thumbnail under the school's folder and
+ * returns their object paths. The paths are handed out for the school's admin
+ * access key, and storage only accepts uploads to paths handed out this way.
+ */
+export const uploadItemImage = async (adminAccessKey: string, dataUrl: string): Promise<StoredImage> => {
+  const { data: paths, error: pathsError } = await supabase
+    .rpc('scanner_reserve_image_paths', { p_admin_access_key: adminAccessKey })
+    .single<{ image_path: string; thumbnail_path: string }>();
+  if (pathsError || !paths) throw pathsError ?? new Error('No upload path was reserved');
+  const imagePath = paths.image_path;
+  const thumbnailPath = paths.thumbnail_path;
+  const [image, thumbnail] = await Promise.all([dataUrlToBlob(dataUrl), createThumbnail(dataUrl)]);
+
+  const bucket = supabase.storage.from(ITEM_IMAGES_BUCKET);
+  const { error: imageError } = await bucket.upload(imagePath, image, { contentType: 'image/jpeg' });
+  if (imageError) throw imageError;
+  const { error: thumbnailError } = await bucket.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' });
+  if (thumbnailError) throw thumbnailError;
+  return { imagePath, thumbnailPath };
+};
+
+/**
+ * Removes uploaded photos whose rows were never saved. Storage only allows
+ * this for recently handed-out paths that no row uses, so failures are
+ * logged rather than thrown.
+ */
+export const removeItemImages = async (images: StoredImage[]): Promise<void> => {
+  const paths = images.flatMap(image => [image.imagePath, image.thumbnailPath]);
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(ITEM_IMAGES_BUCKET).remove(paths);
+  if (error) {
+    console.error("Error removing unsaved photos:", error);
+  }
+};
+
+/**
+ * Signed URLs for object paths, keyed by path. Storage only signs paths in
+ * the signed-in insurer's own schools; others are left out.
+ */
+export const createSignedImageUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const unique = [...new Set(paths)];
+  if (unique.length === 0) return {};
+  const { data, error } = await supabase.storage.from(ITEM_IMAGES_BUCKET).createSignedUrls(unique, SIGNED_URL_TTL_SECONDS);
+  if (error) {
+    console.error("Error signing image URLs:", error);
+    return {};
+  }
+  return Object.fromEntries(
+    (data ?? []).filter(entry => entry.signedUrl && entry.path).map(entry => [entry.path as string, entry.signedUrl])
+  );
+};
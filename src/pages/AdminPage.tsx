@@ -2,36 +2,165 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Webcam from 'react-webcam';
 import { supabase } from '@/lib/supabaseClient';
-import { inferImageWithGroq } from '@/lib/groqClient';
+import { inferImageAsJob, MAX_IMAGES_PER_INFERENCE, type BoundingBox, type DamageAssessment, type DamageType, type EnsembleCandidate, type GroqInferenceResult, type InferenceJobStatus, type LabelFields, type PricingFields, type ScanMode } from '@/lib/groqClient';
 import { debugEnvironment } from '@/lib/debugEnv';
+import { InferenceError, type InferenceErrorKind } from '@/lib/inferenceErrors';
+import { startBarcodeScanner } from '@/lib/barcodeScanner';
+import { removeItemImages, uploadItemImage } from '@/lib/itemImages';
+import { describeQualityIssues, preprocessImage } from '@/lib/imagePreprocessing';
+import { itemUpdateFor, type ItemEdits, type ItemUpdate } from '@/lib/itemEdits';
+import { DAMAGE_TYPES, estimateLoss } from '@/lib/damage';
+import { ASSET_CATEGORIES, ITEM_CONDITIONS, computeActualCashValue, findSchedule, type DepreciationSchedule, type ItemCondition } from '@/lib/depreciation';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Camera, RefreshCcw, Send, CheckCircle, AlertTriangle, Plus, Minus, Loader2, ListChecks, UploadCloud } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ItemEditDialog from '@/components/ItemEditDialog';
+import { Camera, RefreshCcw, Send, CheckCircle, AlertTriangle, Plus, Minus, Loader2, ListChecks, UploadCloud, ScanSearch, X, ScanLine, Tag, Pencil } from 'lucide-react';
 import { toast } from "sonner";
+import { v4 as uuidv4 } from 'uuid';
 
 interface School {
   id: string;
   name: string;
   city: string;
+  insurance_company_id: string;
 }
 
 interface ScannedItem {
   id?: string;
   name: string;
   estimated_value: number;
+  actual_cash_value: number;
+  estimated_loss?: number | null;
+  manufacturer?: string | null;
+  model_number?: string | null;
+  serial_number?: string | null;
+  asset_tag?: string | null;
   quantity: number;
-  image_url?: string;
+  thumbnail_path?: string | null;
+  category: string;
+  age_years: number | null;
+  condition: ItemCondition | null;
+  damage_type: string | null;
+  damage_severity: number | null;
+  room_id: string | null;
+  notes: string | null;
   school_id: string;
 }
 
-interface DetectedObject {
+interface Room {
+  id: string;
+  name: string;
+}
+
+interface Building {
+  id: string;
+  name: string;
+  rooms: Room[];
+}
+
+interface DetectedObject extends LabelFields, PricingFields {
   name: string;
   estimatedValue: number;
   confidence: number;
+  count?: number;
+  needsReview?: boolean;
+  boundingBox?: BoundingBox;
+  damage?: DamageAssessment;
 }
 
+// Where the saved replacement value came from; editing it makes it manual
+type ValueSource = 'catalog' | 'model' | 'manual';
+
+// Whether the quantity is the model's count or the surveyor's
+type QuantitySource = 'model' | 'manual';
+
+// A detected object in the post-capture review list, with the surveyor's edits
+interface ReviewItem extends Omit<DetectedObject, 'valueSource'> {
+  valueSource: ValueSource;
+  // The inference that produced the item, for the audit trail
+  inferenceRunId?: string;
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  selected: boolean;
+  quantity: number;
+  quantitySource: QuantitySource;
+  category: string;
+  ageYears: number | null;
+  condition: ItemCondition;
+  // Surveyor override of the severity-based loss estimate (damage mode only)
+  lossOverride: number | null;
+}
+
+// A capture sent for analysis. The surveyor keeps capturing while it runs and
+// reviews it once its job has succeeded
+interface QueuedAnalysis {
+  id: string;
+  images: string[];
+  mode: ScanMode;
+  category: string;
+  // Ask a second model too
+  ensemble: boolean;
+  assetTag: string | null;
+  // The surveyor's current room when the photo was taken
+  roomId: string | null;
+  status: InferenceJobStatus;
+  result?: GroqInferenceResult;
+  error?: string;
+}
+
+const QUEUE_STATUS_LABELS: Record<InferenceJobStatus, string> = {
+  queued: 'Waiting...',
+  running: 'Analyzing...',
+  succeeded: 'Ready to review',
+  failed: 'Failed',
+};
+
+// Columns the scanner reads back for its session list
+const SCANNED_ITEM_COLUMNS = 'id, name, estimated_value, actual_cash_value, estimated_loss, manufacturer, model_number, serial_number, asset_tag, quantity, thumbnail_path, category, age_years, condition, damage_type, damage_severity, room_id, notes';
+
+const VALUE_SOURCE_LABELS: Record<ValueSource, string> = {
+  catalog: 'Catalog price',
+  model: 'AI estimate',
+  manual: 'Edited',
+};
+
+const LABEL_FIELD_INPUTS: { key: keyof LabelFields; label: string }[] = [
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'modelNumber', label: 'Model #' },
+  { key: 'serialNumber', label: 'Serial #' },
+  { key: 'assetTag', label: 'Asset tag' },
+];
+
+const INFERENCE_ERROR_MESSAGES: Record<InferenceErrorKind, string> = {
+  auth: "This scanner link is no longer valid. Ask your insurer for a new one.",
+  quota: "This school has reached its scan limit.",
+  bad_input: "The photo could not be analyzed. Please retake it.",
+  no_asset: "No asset found in this photo. Try framing the item more clearly.",
+  parse: "Couldn't read the analysis result. Please capture the item again.",
+  upstream: "The analysis service is unavailable right now. Please try again shortly.",
+  timeout: "The analysis took too long. Check your connection and try again.",
+  config: "The scanner is not configured correctly. Please contact your insurer.",
+};
+
+const inferenceErrorMessage = (error: unknown) => {
+  if (!(error instanceof InferenceError)) return "Could not identify item. Please try again.";
+  if (error.code === 'budget_exceeded') {
+    return "This school has used its scanning budget for the month. Ask your insurer to raise it.";
+  }
+  if (error.code === 'truncated_response') {
+    return "Too many items in one photo to list them all. Frame fewer items and try again.";
+  }
+  const message = INFERENCE_ERROR_MESSAGES[error.kind];
+  if (error.kind === 'quota' && error.retryAfterMs !== undefined) {
+    const minutes = Math.ceil(error.retryAfterMs / 60000);
+    return `${message} Try again in ${minutes === 1 ? 'a minute' : `${minutes} minutes`}.`;
+  }
+  return message;
+};
+
 const AdminPage = () => {
   const { adminAccessKey } = useParams<{ adminAccessKey: string }>();
   const navigate = useNavigate();
@@ -40,17 +169,42 @@ const AdminPage = () => {
   const [isValidKey, setIsValidKey] = useState<boolean | null>(null);
   const [loadingSchool, setLoadingSchool] = useState(true);
 
+  // Angles captured for the current item; the first is the primary image
+  const [angleImages, setAngleImages] = useState<string[]>([]);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [inferenceResult, setInferenceResult] = useState<{ itemName: string; estimatedValue: number } | null>(null);
-  const [quantity, setQuantity] = useState(1);
-  const [isInferring, setIsInferring] = useState(false);
+  const [scanMode, setScanMode] = useState<ScanMode>('inventory');
+  // Asset category for the next capture; 'auto' lets the model decide
+  const [captureCategory, setCaptureCategory] = useState('auto');
+  const [secondOpinion, setSecondOpinion] = useState(false);
+  const [analysisQueue, setAnalysisQueue] = useState<QueuedAnalysis[]>([]);
+  // The queued capture whose results are being reviewed
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  // Which ensemble candidate the main item was taken from
+  const [chosenCandidate, setChosenCandidate] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
+  const [isProcessingCapture, setIsProcessingCapture] = useState(false);
 
   const [scannedItemsToday, setScannedItemsToday] = useState<ScannedItem[]>([]);
   const [showSummary, setShowSummary] = useState(false);
+  const [editingItem, setEditingItem] = useState<ScannedItem | null>(null);
 
-  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[]>([]);
-  const [selectedObjectIndex, setSelectedObjectIndex] = useState<number>(0);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [schedules, setSchedules] = useState<DepreciationSchedule[]>([]);
+
+  const [isTagScanning, setIsTagScanning] = useState(false);
+  // Last decoded tag and the school's item carrying it, if any
+  const [scannedTag, setScannedTag] = useState<{ tag: string; item: ScannedItem | null } | null>(null);
+  // Tag to attach to the next captured item
+  const [pendingAssetTag, setPendingAssetTag] = useState<string | null>(null);
+
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  // Stamped on every item captured until the surveyor moves on
+  const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
+  const [isAddingRoom, setIsAddingRoom] = useState(false);
+  // An existing building id, or 'new' to create one named newBuildingName
+  const [newRoomBuildingId, setNewRoomBuildingId] = useState('new');
+  const [newBuildingName, setNewBuildingName] = useState('');
+  const [newRoomName, setNewRoomName] = useState('');
 
   // Request camera permission on mount
   useEffect(() => {
@@ -77,7 +231,7 @@ const AdminPage = () => {
       setLoadingSchool(true);
       const { data, error } = await supabase
         .from('schools')
-        .select('id, name, city')
+        .select('id, name, city, insurance_company_id')
         .eq('admin_access_key', adminAccessKey)
         .single();
 
@@ -90,16 +244,156 @@ const AdminPage = () => {
         setIsValidKey(true);
         setSchool(data as School);
         fetchScannedItemsToday(data.id);
+        fetchSchedules(adminAccessKey);
+        fetchBuildings(adminAccessKey);
       }
       setLoadingSchool(false);
     };
     fetchSchool();
   }, [adminAccessKey]);
 
+  // Decode asset tags from the live camera while tag scanning is on
+  useEffect(() => {
+    const video = webcamRef.current?.video;
+    if (!isTagScanning || capturedImage || !video || !school) return;
+    let stopScanner: (() => void) | null = null;
+    let cancelled = false;
+    startBarcodeScanner(video, (tag) => handleTagScanned(tag, school.id))
+      .then(stop => {
+        if (cancelled) stop();
+        else stopScanner = stop;
+      })
+      .catch(err => {
+        console.error("Barcode scanner error:", err);
+        toast.error("Could not start the tag scanner.");
+        setIsTagScanning(false);
+      });
+    return () => {
+      cancelled = true;
+      stopScanner?.();
+    };
+  }, [isTagScanning, capturedImage, school]);
+
+  const handleTagScanned = async (tag: string, schoolId: string) => {
+    setIsTagScanning(false);
+    const { data, error } = await supabase
+      .from('items')
+      .select(SCANNED_ITEM_COLUMNS)
+      .eq('school_id', schoolId)
+      .eq('asset_tag', tag)
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.error("Error looking up asset tag:", error);
+      toast.error(`Failed to look up tag ${tag}: ${error.message}`);
+      return;
+    }
+    setScannedTag({ tag, item: data ? { ...data, school_id: schoolId } as ScannedItem : null });
+  };
+
+  /**
+   * Updates an item saved earlier through the access key, so only this
+   * school's items can change. Returns an error message, or null on success.
+   */
+  const updateScannedItem = async (itemId: string, changes: Partial<ItemUpdate>): Promise<string | null> => {
+    if (!adminAccessKey) return 'No admin access key';
+    const { data: updated, error } = await supabase.rpc('scanner_update_item', {
+      p_admin_access_key: adminAccessKey,
+      p_item_id: itemId,
+      p_changes: changes
+    });
+    if (error) return error.message;
+    return updated ? null : 'The item was not found for this school';
+  };
+
+  const handleIncrementTagged = async () => {
+    const item = scannedTag?.item;
+    if (!item?.id) return;
+    const quantity = item.quantity + 1;
+    const error = await updateScannedItem(item.id, { quantity, quantity_source: 'manual' });
+    if (error) {
+      toast.error(`Failed to update ${item.name}: ${error}`);
+      return;
+    }
+    toast.success(`${item.name} is now x${quantity}.`);
+    setScannedItemsToday(prev => prev.map(i => i.id === item.id ? { ...i, quantity } : i));
+    setScannedTag(null);
+  };
+
+  const handleStartTaggedItem = () => {
+    if (!scannedTag) return;
+    setPendingAssetTag(scannedTag.tag);
+    setScannedTag(null);
+    toast.info(`Capture the item for tag ${scannedTag.tag}.`);
+  };
+
+  // Locations are read and added by access key, so only this school's are reachable
+  const fetchBuildings = async (accessKey: string) => {
+    const { data, error } = await supabase.rpc('scanner_buildings', { p_admin_access_key: accessKey });
+    if (error) {
+      console.error("Error fetching buildings:", error);
+      toast.error(`Failed to load rooms: ${error.message}`);
+    } else if (data) {
+      setBuildings(data as Building[]);
+      setNewRoomBuildingId(data[0]?.id ?? 'new');
+    }
+  };
+
+  const handleAddRoom = async () => {
+    if (!school || !adminAccessKey) return;
+    if (!newRoomName.trim() || (newRoomBuildingId === 'new' && !newBuildingName.trim())) {
+      toast.error("Enter a building and a room name.");
+      return;
+    }
+    let building = buildings.find(b => b.id === newRoomBuildingId);
+    if (!building) {
+      const { data, error } = await supabase
+        .rpc('scanner_add_building', { p_admin_access_key: adminAccessKey, p_name: newBuildingName.trim() })
+        .single<{ id: string; name: string }>();
+      if (error || !data) {
+        toast.error(`Failed to add building: ${error?.message}`);
+        return;
+      }
+      building = { ...data, rooms: [] };
+    }
+    const { data: room, error } = await supabase
+      .rpc('scanner_add_room', { p_admin_access_key: adminAccessKey, p_building_id: building.id, p_name: newRoomName.trim() })
+      .single<{ id: string; name: string }>();
+    if (error || !room) {
+      toast.error(`Failed to add room: ${error?.message}`);
+      return;
+    }
+    const updated = { ...building, rooms: [...building.rooms, room] };
+    setBuildings(prev => prev.some(b => b.id === updated.id) ? prev.map(b => b.id === updated.id ? updated : b) : [...prev, updated]);
+    setCurrentRoomId(room.id);
+    setNewRoomBuildingId(updated.id);
+    setNewBuildingName('');
+    setNewRoomName('');
+    setIsAddingRoom(false);
+    toast.success(`Now scanning in ${updated.name} / ${room.name}.`);
+  };
+
+  const roomLabel = (roomId: string | null) => {
+    const building = buildings.find(b => b.rooms.some(r => r.id === roomId));
+    const room = building?.rooms.find(r => r.id === roomId);
+    return building && room ? `${building.name} / ${room.name}` : 'No room';
+  };
+
+  // Only the school's insurer schedules, looked up by the access key
+  const fetchSchedules = async (accessKey: string) => {
+    const { data, error } = await supabase.rpc('scanner_depreciation_schedules', { p_admin_access_key: accessKey });
+    if (error) {
+      // Defaults in lib/depreciation still give a usable ACV
+      console.error("Error fetching depreciation schedules:", error);
+    } else if (data) {
+      setSchedules(data as DepreciationSchedule[]);
+    }
+  };
+
   const fetchScannedItemsToday = async (schoolId: string) => {
     const {data} = await supabase
       .from('items')
-      .select('id, name, estimated_value, quantity, image_url')
+      .select(SCANNED_ITEM_COLUMNS)
       .eq('school_id', schoolId)
       .order('created_at', {ascending: false}); 
     if (data) {
@@ -107,94 +401,304 @@ const AdminPage = () => {
         id: d.id, 
         name: d.name, 
         estimated_value: d.estimated_value,
+        actual_cash_value: d.actual_cash_value ?? d.estimated_value,
+        estimated_loss: d.estimated_loss,
+        manufacturer: d.manufacturer,
+        model_number: d.model_number,
+        serial_number: d.serial_number,
+        asset_tag: d.asset_tag,
         quantity: d.quantity,
-        image_url: d.image_url,
+        thumbnail_path: d.thumbnail_path,
+        category: d.category,
+        age_years: d.age_years,
+        condition: d.condition,
+        damage_type: d.damage_type,
+        damage_severity: d.damage_severity,
+        room_id: d.room_id,
+        notes: d.notes,
         school_id: schoolId 
       } as ScannedItem)));
     }
   };
 
-  const capture = useCallback(() => {
-    if (webcamRef.current) {
-      const imageSrc = webcamRef.current.getScreenshot();
-      setCapturedImage(imageSrc);
-      setInferenceResult(null); // Clear previous inference
-      setQuantity(1); // Reset quantity
-      if (imageSrc) {
-        handleInference(imageSrc);
+  const addAngle = (imageSrc: string) => {
+    setAngleImages(prev => prev.length < MAX_IMAGES_PER_INFERENCE ? [...prev, imageSrc] : prev);
+  };
+
+  // The compressed image is what gets analyzed and uploaded; poor shots are
+  // held back until the surveyor decides, so no model call is spent on them
+  const capture = useCallback(async () => {
+    const imageSrc = webcamRef.current?.getScreenshot();
+    if (!imageSrc) return;
+    setIsProcessingCapture(true);
+    try {
+      const processed = await preprocessImage(imageSrc);
+      if (processed.issues.length === 0) {
+        addAngle(processed.dataUrl);
+        return;
       }
+      toast.warning(`This photo looks ${describeQualityIssues(processed.issues)}. Retake it for a reliable valuation.`, {
+        duration: 10000,
+        action: { label: 'Use Anyway', onClick: () => addAngle(processed.dataUrl) },
+      });
+    } catch (error) {
+      console.error("Error preprocessing capture:", error);
+      toast.error("Couldn't process the photo. Please capture it again.");
+    } finally {
+      setIsProcessingCapture(false);
     }
   }, [webcamRef]);
 
-  const handleInference = async (imageDataUrl: string) => {
-    setIsInferring(true);
-    toast.info("Analyzing item... Please wait.", { icon: <Loader2 className="animate-spin" /> });
+  const removeAngle = (index: number) => {
+    setAngleImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const updateQueuedAnalysis = (id: string, changes: Partial<QueuedAnalysis>) => {
+    setAnalysisQueue(queue => queue.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+  };
+
+  const removeQueuedAnalysis = (id: string) => {
+    setAnalysisQueue(queue => queue.filter(entry => entry.id !== id));
+  };
+
+  const handleAnalyze = () => {
+    if (angleImages.length === 0) return;
+    const entry: QueuedAnalysis = {
+      id: uuidv4(),
+      images: angleImages,
+      mode: scanMode,
+      category: captureCategory,
+      ensemble: secondOpinion,
+      assetTag: pendingAssetTag,
+      roomId: currentRoomId,
+      status: 'queued',
+    };
+    setAnalysisQueue(queue => [...queue, entry]);
+    // Free the camera for the next item straight away
+    setAngleImages([]);
+    setPendingAssetTag(null);
+    toast.info("Analyzing in the background. You can capture the next item.");
+    runAnalysis(entry);
+  };
+
+  const runAnalysis = async (entry: QueuedAnalysis) => {
+    updateQueuedAnalysis(entry.id, { status: 'queued', error: undefined });
     try {
-      const result = await inferImageWithGroq(imageDataUrl);
-      setInferenceResult({
-        itemName: result.itemName,
-        estimatedValue: result.estimatedValue
-      });
-      setDetectedObjects([
-        { 
-          name: result.itemName, 
-          estimatedValue: result.estimatedValue,
-          confidence: 1 
-        },
-        ...result.detectedObjects
-      ]);
-      setSelectedObjectIndex(0);
-      toast.success(`Items detected: ${result.itemName} and ${result.detectedObjects.length} other objects`, { icon: <CheckCircle /> });
+      const result = await inferImageAsJob(entry.images, entry.mode, { adminAccessKey }, { category: entry.category, ensemble: entry.ensemble }, status => updateQueuedAnalysis(entry.id, { status }));
+      updateQueuedAnalysis(entry.id, { status: 'succeeded', result });
+      toast.success(
+        `${result.itemName} is ready to review${result.cached ? ' (same as a recent photo; reused its result)' : ''}`,
+        { icon: <CheckCircle /> }
+      );
     } catch (error) {
       console.error("Error during Groq inference:", error);
-      toast.error("Could not identify item. Please try again.", { icon: <AlertTriangle /> });
-      setInferenceResult(null);
-      setDetectedObjects([]);
-    } finally {
-      setIsInferring(false);
+      const message = inferenceErrorMessage(error);
+      updateQueuedAnalysis(entry.id, { status: 'failed', error: message });
+      toast.error(message, { icon: <AlertTriangle /> });
     }
   };
 
+  const reviewItemsFor = (entry: QueuedAnalysis, result: GroqInferenceResult): ReviewItem[] => {
+    const detected: DetectedObject[] = [
+      { 
+        name: result.itemName, 
+        estimatedValue: result.estimatedValue,
+        confidence: result.confidence,
+        count: result.count,
+        needsReview: result.needsReview,
+        boundingBox: result.boundingBox,
+        damage: result.damage,
+        manufacturer: result.manufacturer,
+        modelNumber: result.modelNumber,
+        serialNumber: result.serialNumber,
+        valueSource: result.valueSource,
+        catalogEntryId: result.catalogEntryId,
+        catalogEntryName: result.catalogEntryName,
+        catalogMatchScore: result.catalogMatchScore,
+        modelEstimatedValue: result.modelEstimatedValue,
+        // A scanned tag beats text the model read off the label
+        assetTag: entry.assetTag ?? result.assetTag
+      },
+      ...result.detectedObjects
+    ];
+    // Only the main item starts selected; the surveyor opts in to the rest
+    return detected.map((object, index) => ({
+      ...object,
+      selected: index === 0,
+      valueSource: object.valueSource ?? 'model',
+      inferenceRunId: result.inferenceRunId,
+      promptTemplateId: result.promptTemplateId,
+      promptTemplateVersion: result.promptTemplateVersion,
+      // Without a count the surveyor is left to set the quantity
+      quantity: object.count ?? 1,
+      quantitySource: object.count ? 'model' : 'manual',
+      category: index === 0 ? result.category ?? 'general' : entry.category === 'auto' ? 'general' : entry.category,
+      ageYears: null,
+      condition: 'good',
+      lossOverride: null,
+    }));
+  };
+
+  // Angles captured for the next item stay in angleImages while a queued one is reviewed
+  const handleOpenReview = (entry: QueuedAnalysis) => {
+    if (!entry.result) return;
+    setIsTagScanning(false);
+    setCapturedImage(entry.images[0]);
+    setScanMode(entry.mode);
+    setReviewItems(reviewItemsFor(entry, entry.result));
+    setReviewingId(entry.id);
+    setChosenCandidate(0);
+  };
+
+  // Takes the main item's name and value from another model's answer
+  const handleChooseCandidate = (index: number, candidate: EnsembleCandidate) => {
+    setChosenCandidate(index);
+    setReviewItems(items => items.map((item, i) => i === 0 ? {
+      ...item,
+      name: candidate.itemName,
+      estimatedValue: candidate.estimatedValue,
+      confidence: candidate.confidence,
+      category: candidate.category ?? item.category,
+      needsReview: candidate.needsReview,
+      valueSource: candidate.valueSource ?? 'model',
+      catalogEntryId: candidate.catalogEntryId,
+      catalogEntryName: candidate.catalogEntryName,
+      catalogMatchScore: candidate.catalogMatchScore,
+      modelEstimatedValue: candidate.modelEstimatedValue,
+      // Keep a quantity the surveyor already corrected
+      ...(item.quantitySource === 'model' && candidate.count && { quantity: candidate.count }),
+      inferenceRunId: candidate.inferenceRunId ?? item.inferenceRunId,
+    } : item));
+  };
+
+  const reviewingEntry = analysisQueue.find(entry => entry.id === reviewingId);
+  // The reviewed capture's photos during review, otherwise the angles taken so far
+  const stripImages = capturedImage && reviewingEntry ? reviewingEntry.images : angleImages;
+  const reviewEnsemble = reviewingEntry?.result?.ensemble;
+
   const handleObjectSelect = (index: number) => {
-    setSelectedObjectIndex(index);
-    const object = detectedObjects[index];
-    setInferenceResult({
-      itemName: object.name,
-      estimatedValue: object.estimatedValue
-    });
+    setReviewItems(items => items.map((item, i) => i === index ? { ...item, selected: !item.selected } : item));
+  };
+
+  const updateReviewItem = (index: number, changes: Partial<ReviewItem>) => {
+    setReviewItems(items => items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const selectedReviewItems = reviewItems.filter(item => item.selected);
+
+  const actualCashValueFor = (item: ReviewItem) =>
+    computeActualCashValue(item.estimatedValue, item.ageYears, item.condition, findSchedule(schedules, item.category));
+
+  const estimatedLossFor = (item: ReviewItem) =>
+    item.damage ? item.lossOverride ?? estimateLoss(actualCashValueFor(item), item.damage) : null;
+
+  const updateReviewDamage = (index: number, item: ReviewItem, changes: Partial<DamageAssessment>) => {
+    const damage = { ...(item.damage ?? { type: 'none', severity: 0 }), ...changes };
+    updateReviewItem(index, { damage, lossOverride: null });
   };
 
   const handleSaveItem = async () => {
-    if (!inferenceResult || !school || !capturedImage) {
-      toast.error("No item data to save. Please capture and identify an item first.");
+    if (selectedReviewItems.length === 0 || !school || !adminAccessKey || !capturedImage) {
+      toast.error("No item data to save. Please capture an item and select at least one detected object.");
       return;
     }
+
+    // Re-inventories must update tagged items, not add them again
+    const tags = selectedReviewItems.map(item => item.assetTag?.trim()).filter((tag): tag is string => !!tag);
+    if (new Set(tags).size !== tags.length) {
+      toast.error("Two selected items have the same asset tag.");
+      return;
+    }
+    if (tags.length > 0) {
+      const { data: existing } = await supabase
+        .from('items')
+        .select('asset_tag')
+        .eq('school_id', school.id)
+        .in('asset_tag', tags);
+      if (existing && existing.length > 0) {
+        toast.error(`Already inventoried: tag ${existing.map(e => e.asset_tag).join(', ')}. Scan the tag to update the existing item instead.`);
+        return;
+      }
+    }
+
     setIsSaving(true);
-    toast.info("Saving item...", { icon: <Loader2 className="animate-spin" /> });
+    toast.info(`Saving ${selectedReviewItems.length} item(s)...`, { icon: <Loader2 className="animate-spin" /> });
 
     try {
-      // Convert the captured image to a more efficient format if needed
-      const compressedImage = capturedImage; // You might want to add image compression here
-
-      const newItem = {
-        name: inferenceResult.itemName,
-        estimated_value: inferenceResult.estimatedValue,
-        quantity: quantity,
-        image_url: compressedImage,
+      // Photos go to storage first; rows only keep the object paths. Uploads
+      // whose rows end up unsaved are removed again.
+      const uploads = await Promise.allSettled((reviewingEntry?.images ?? []).map(url => uploadItemImage(adminAccessKey, url)));
+      const storedImages = uploads.flatMap(upload => upload.status === 'fulfilled' ? [upload.value] : []);
+      const uploadFailure = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+      if (uploadFailure) {
+        console.error("Error uploading photos:", uploadFailure.reason);
+        toast.error(`Failed to upload photos: ${(uploadFailure.reason as Error).message}`);
+        await removeItemImages(storedImages);
+        return;
+      }
+      const [primaryImage, ...extraStoredImages] = storedImages;
+
+      const newItems = selectedReviewItems.map(item => ({
+        name: item.name,
+        estimated_value: item.estimatedValue,
+        value_source: item.valueSource,
+        catalog_entry_id: item.valueSource === 'catalog' ? item.catalogEntryId ?? null : null,
+        actual_cash_value: actualCashValueFor(item),
+        category: item.category,
+        age_years: item.ageYears,
+        condition: item.condition,
+        scan_mode: scanMode,
+        damage_type: item.damage?.type ?? null,
+        damage_severity: item.damage?.severity ?? null,
+        damage_description: item.damage?.description ?? null,
+        estimated_loss: estimatedLossFor(item),
+        confidence: item.confidence,
+        review_status: item.needsReview ? 'needs_review' : 'approved',
+        inference_run_id: item.inferenceRunId ?? null,
+        prompt_template_id: item.promptTemplateId ?? null,
+        prompt_template_version: item.promptTemplateVersion ?? null,
+        manufacturer: item.manufacturer || null,
+        model_number: item.modelNumber || null,
+        serial_number: item.serialNumber || null,
+        asset_tag: item.assetTag?.trim() || null,
+        quantity: item.quantity,
+        quantity_source: item.quantitySource,
+        room_id: reviewingEntry ? reviewingEntry.roomId : currentRoomId,
+        image_path: primaryImage.imagePath,
+        thumbnail_path: primaryImage.thumbnailPath,
         school_id: school.id,
-      };
+      }));
 
+      // One batch insert so a capture is saved all-or-nothing
       const { data, error } = await supabase
         .from('items')
-        .insert(newItem)
-        .select('id, name, estimated_value, quantity, image_url, school_id');
+        .insert(newItems)
+        .select(`${SCANNED_ITEM_COLUMNS}, school_id`);
 
       if (error) {
-        console.error("Error saving item:", error);
-        toast.error(`Failed to save item: ${error.message}`);
+        console.error("Error saving items:", error);
+        toast.error(`Failed to save items: ${error.message}`);
+        await removeItemImages(storedImages);
       } else if (data) {
-        toast.success(`${inferenceResult.itemName} (x${quantity}) saved successfully!`);
-        setScannedItemsToday(prevItems => [data[0], ...prevItems]);
+        // Extra angles go to item_images; position 0 is the item's own image
+        const extraImages = data.flatMap(item => extraStoredImages.map((image, i) => ({
+          item_id: item.id,
+          image_path: image.imagePath,
+          thumbnail_path: image.thumbnailPath,
+          position: i + 1,
+        })));
+        if (extraImages.length > 0) {
+          const { error: imagesError } = await supabase.from('item_images').insert(extraImages);
+          if (imagesError) {
+            console.error("Error saving additional angles:", imagesError);
+            toast.warning(`Items saved, but additional photos failed to upload: ${imagesError.message}`);
+            await removeItemImages(extraStoredImages);
+          }
+        }
+        const summary = selectedReviewItems.map(item => `${item.name} (x${item.quantity})`).join(', ');
+        toast.success(`${summary} saved successfully!`);
+        setScannedItemsToday(prevItems => [...data, ...prevItems]);
+        if (reviewingId) removeQueuedAnalysis(reviewingId);
         handleNextItem(); // Clear for next scan
       }
     } catch (err) {
@@ -205,11 +709,28 @@ const AdminPage = () => {
     }
   };
 
+  // Shown straight away and rolled back if the update fails
+  const handleSaveItemEdits = async (edits: ItemEdits) => {
+    const item = editingItem;
+    if (!item?.id) return;
+    setEditingItem(null);
+    const update = itemUpdateFor(item, edits, schedules);
+    const updated: ScannedItem = { ...item, ...update, actual_cash_value: update.actual_cash_value ?? item.actual_cash_value };
+    setScannedItemsToday(prev => prev.map(i => i.id === item.id ? updated : i));
+    const error = await updateScannedItem(item.id, update);
+    if (error) {
+      toast.error(`Failed to update ${item.name}: ${error}`);
+      setScannedItemsToday(prev => prev.map(i => i.id === item.id ? item : i));
+    } else {
+      toast.success(`Saved changes to ${updated.name}.`);
+    }
+  };
+
+  // Ends the review; angles and a tag already lined up for the next item are kept
   const handleNextItem = () => {
     setCapturedImage(null);
-    setInferenceResult(null);
-    setQuantity(1);
-    setIsInferring(false);
+    setReviewItems([]);
+    setReviewingId(null);
     setIsSaving(false);
     if (webcamRef.current && webcamRef.current.video && webcamRef.current.video.srcObject) {
         // Ensure camera stream is active
@@ -241,6 +762,8 @@ const AdminPage = () => {
   
   if (showSummary) {
     const totalValue = scannedItemsToday.reduce((sum, item) => sum + item.estimated_value * item.quantity, 0);
+    const totalActualCashValue = scannedItemsToday.reduce((sum, item) => sum + item.actual_cash_value * item.quantity, 0);
+    const totalLoss = scannedItemsToday.reduce((sum, item) => sum + (item.estimated_loss ?? 0) * item.quantity, 0);
     return (
       <div className="p-4 md:p-8 max-w-2xl mx-auto">
         <Card>
@@ -257,21 +780,47 @@ const AdminPage = () => {
                   <li key={item.id || index} className="py-3 flex justify-between items-center">
                     <div>
                       <p className="font-medium">{item.name} (x{item.quantity})</p>
-                      <p className="text-sm text-primary">Value: ${item.estimated_value.toLocaleString()} each</p>
+                      {(item.manufacturer || item.model_number || item.serial_number || item.asset_tag) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[item.manufacturer, item.model_number, item.serial_number && `S/N ${item.serial_number}`, item.asset_tag && `Tag ${item.asset_tag}`].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                      <p className="text-sm text-primary">Replacement: ${item.estimated_value.toLocaleString()} each</p>
+                      <p className="text-sm text-muted-foreground">Actual cash value: ${item.actual_cash_value.toLocaleString()} each</p>
+                      {item.notes && <p className="text-xs text-muted-foreground whitespace-pre-line">{item.notes}</p>}
+                    </div>
+                    <div className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingItem(item)} aria-label={`Edit ${item.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <p className="text-lg font-semibold">Total: ${(item.estimated_value * item.quantity).toLocaleString()}</p>
+                      <p className="text-sm text-muted-foreground">ACV: ${(item.actual_cash_value * item.quantity).toLocaleString()}</p>
+                      {item.estimated_loss != null && (
+                        <p className="text-sm text-destructive">Loss: ${(item.estimated_loss * item.quantity).toLocaleString()}</p>
+                      )}
                     </div>
-                    <p className="text-lg font-semibold">Total: ${(item.estimated_value * item.quantity).toLocaleString()}</p>
                   </li>
                 ))}
               </ul>
             )}
             <div className="mt-6 pt-4 border-t">
-                <p className="text-xl font-bold text-right">Session Total Value: ${totalValue.toLocaleString()}</p>
+                <p className="text-xl font-bold text-right">Session Replacement Cost: ${totalValue.toLocaleString()}</p>
+                <p className="text-lg font-semibold text-right text-muted-foreground">Session Actual Cash Value: ${totalActualCashValue.toLocaleString()}</p>
+                {totalLoss > 0 && (
+                  <p className="text-lg font-semibold text-right text-destructive">Session Estimated Loss: ${totalLoss.toLocaleString()}</p>
+                )}
             </div>
             <Button onClick={() => setShowSummary(false)} className="w-full mt-6" variant="outline">
               Back to Camera Scanner
             </Button>
           </CardContent>
         </Card>
+        <ItemEditDialog
+          item={editingItem}
+          buildings={buildings}
+          onClose={() => setEditingItem(null)}
+          onSave={handleSaveItemEdits}
+        />
       </div>
     );
   }
@@ -281,13 +830,78 @@ const AdminPage = () => {
       <h1 className="text-2xl md:text-3xl font-bold mb-1 text-primary">Item Scanner</h1>
       <p className="text-sm text-muted-foreground mb-4">For: <span className="font-semibold">{school.name}, {school.city}</span></p>
 
-      <Card className="w-full max-w-lg mb-4 relative overflow-hidden">
-        {isInferring && (
-          <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center z-20">
-            <Loader2 className="h-10 w-10 animate-spin text-white"/>
-            <p className="text-white mt-2">Identifying item...</p>
+      <Tabs value={scanMode} onValueChange={(value) => setScanMode(value as ScanMode)} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="inventory" disabled={!!capturedImage}>Inventory</TabsTrigger>
+          <TabsTrigger value="damage" disabled={!!capturedImage}>Damage Assessment</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Label htmlFor="capture-category" className="text-sm">Category:</Label>
+        <select
+          id="capture-category"
+          value={captureCategory}
+          onChange={(e) => setCaptureCategory(e.target.value)}
+          disabled={!!capturedImage}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          <option value="auto">Auto-detect</option>
+          {ASSET_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-sm cursor-pointer" title="Ask a second model and compare; useful for expensive items">
+          <input
+            type="checkbox"
+            checked={secondOpinion}
+            onChange={(e) => setSecondOpinion(e.target.checked)}
+            disabled={!!capturedImage}
+            className="h-4 w-4 accent-primary"
+          />
+          Second opinion
+        </label>
+      </div>
+
+      <div className="w-full max-w-lg mb-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="current-room" className="text-sm">Room:</Label>
+          <select
+            id="current-room"
+            value={currentRoomId ?? ''}
+            onChange={(e) => setCurrentRoomId(e.target.value || null)}
+            className="h-9 flex-1 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="">No room</option>
+            {buildings.map(b => (
+              <optgroup key={b.id} label={b.name}>
+                {b.rooms.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </optgroup>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={() => setIsAddingRoom(open => !open)}>
+            <Plus className="mr-1 h-4 w-4" /> Room
+          </Button>
+        </div>
+        {isAddingRoom && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Building"
+              value={newRoomBuildingId}
+              onChange={(e) => setNewRoomBuildingId(e.target.value)}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {buildings.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+              <option value="new">New building...</option>
+            </select>
+            {newRoomBuildingId === 'new' && (
+              <Input aria-label="Building name" placeholder="Building" value={newBuildingName} onChange={(e) => setNewBuildingName(e.target.value)} className="h-9 w-32" />
+            )}
+            <Input aria-label="Room name" placeholder="Room" value={newRoomName} onChange={(e) => setNewRoomName(e.target.value)} className="h-9 w-32" />
+            <Button size="sm" onClick={handleAddRoom}>Add</Button>
           </div>
         )}
+      </div>
+
+      <Card className="w-full max-w-lg mb-4 relative overflow-hidden">
         <CardContent className="p-2 md:p-4">
           <div className="relative">
             {!capturedImage ? (
@@ -304,81 +918,346 @@ const AdminPage = () => {
                     toast.error("Could not access camera. Please check permissions.", {description: errorMessage});
                   }}
                 />
+                {isTagScanning && (
+                  <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 animate-pulse pointer-events-none" />
+                )}
               </div>
             ) : (
               <div className="relative">
-                <img src={capturedImage} alt="Captured item" className="w-full h-auto rounded-md aspect-video object-cover" />
+                {/* Not cropped, so normalized box coordinates line up with the rendered image */}
+                <img src={capturedImage} alt="Captured item" className="w-full h-auto rounded-md" />
+                {reviewItems.map((object, index) => object.boundingBox && (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => handleObjectSelect(index)}
+                    className={`absolute rounded-sm border-2 transition-colors ${object.selected ? 'border-primary bg-primary/20 z-10' : 'border-white/80 hover:bg-white/10'}`}
+                    style={{
+                      left: `${object.boundingBox.x * 100}%`,
+                      top: `${object.boundingBox.y * 100}%`,
+                      width: `${object.boundingBox.width * 100}%`,
+                      height: `${object.boundingBox.height * 100}%`,
+                    }}
+                    aria-pressed={object.selected}
+                    aria-label={`Toggle ${object.name}`}
+                  >
+                    <span className={`absolute left-0 top-0 max-w-full truncate px-1 text-xs ${object.selected ? 'bg-primary text-primary-foreground' : 'bg-black/60 text-white'}`}>
+                      {object.name}
+                    </span>
+                  </button>
+                ))}
               </div>
             )}
           </div>
+          {stripImages.length > 0 && (
+            <div className="flex space-x-2 overflow-x-auto pt-2">
+              {stripImages.map((image, index) => (
+                <div key={index} className="relative flex-shrink-0">
+                  <img src={image} alt={`Angle ${index + 1}`} className={`h-14 w-20 object-cover rounded ${capturedImage && index === 0 ? 'ring-2 ring-primary' : ''}`} />
+                  {!capturedImage && (
+                    <button
+                      type="button"
+                      onClick={() => removeAngle(index)}
+                      className="absolute -right-1 -top-1 rounded-full bg-black/70 p-0.5 text-white"
+                      aria-label={`Remove angle ${index + 1}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {!capturedImage && scannedTag && (
+        <Card className="w-full max-w-lg mb-4 bg-accent/50">
+          <CardHeader className="pb-2 pt-3 px-4">
+            <CardTitle className="text-lg flex items-center"><Tag className="mr-2 h-4 w-4" /> Tag {scannedTag.tag}</CardTitle>
+            <CardDescription>
+              {scannedTag.item
+                ? `Already inventoried: ${scannedTag.item.name} (x${scannedTag.item.quantity})`
+                : "Not in this school's inventory yet."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-4 pb-3 grid grid-cols-2 gap-3">
+            {scannedTag.item ? (
+              <Button onClick={handleIncrementTagged}><Plus className="mr-2 h-4 w-4" /> Add 1 to Quantity</Button>
+            ) : (
+              <Button onClick={handleStartTaggedItem}><Camera className="mr-2 h-4 w-4" /> New Item with Tag</Button>
+            )}
+            <Button variant="outline" onClick={() => setScannedTag(null)}>Dismiss</Button>
+          </CardContent>
+        </Card>
+      )}
+
       {!capturedImage ? (
-        <Button onClick={capture} size="lg" className="w-full max-w-lg mb-4" disabled={isInferring}>
-          <Camera className="mr-2 h-5 w-5" /> Capture Item
-        </Button>
+        <div className="w-full max-w-lg mb-4 space-y-2">
+          {pendingAssetTag && (
+            <div className="flex items-center justify-center text-sm">
+              <Tag className="mr-1 h-4 w-4 text-primary" /> Next item will be tagged <span className="font-semibold mx-1">{pendingAssetTag}</span>
+              <button type="button" onClick={() => setPendingAssetTag(null)} aria-label="Clear pending tag"><X className="h-4 w-4" /></button>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <Button onClick={capture} size="lg" variant={angleImages.length > 0 ? "outline" : "default"} disabled={isProcessingCapture || angleImages.length >= MAX_IMAGES_PER_INFERENCE}>
+              {isProcessingCapture ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Camera className="mr-2 h-5 w-5" />} {angleImages.length > 0 ? `Add Angle (${angleImages.length}/${MAX_IMAGES_PER_INFERENCE})` : 'Capture Item'}
+            </Button>
+            <Button onClick={handleAnalyze} size="lg" disabled={isProcessingCapture || angleImages.length === 0}>
+              <ScanSearch className="mr-2 h-5 w-5" /> Analyze{angleImages.length > 1 ? ` ${angleImages.length} Photos` : ''}
+            </Button>
+          </div>
+          <Button
+            onClick={() => { setScannedTag(null); setIsTagScanning(on => !on); }}
+            variant={isTagScanning ? "secondary" : "ghost"}
+            className="w-full"
+          >
+            <ScanLine className="mr-2 h-4 w-4" /> {isTagScanning ? 'Scanning for Asset Tags... (tap to stop)' : 'Scan Asset Tag'}
+          </Button>
+          <p className="text-xs text-muted-foreground text-center">
+            Add a close-up of the model or serial plate for expensive equipment.
+          </p>
+          {analysisQueue.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2 pt-3 px-4">
+                <CardTitle className="text-lg">Analysis Queue</CardTitle>
+                <CardDescription>Review each capture once it is ready.</CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 pb-3">
+                <ul className="divide-y divide-border">
+                  {analysisQueue.map(entry => (
+                    <li key={entry.id} className="py-2 flex items-center gap-3">
+                      <img src={entry.images[0]} alt="Queued capture" className="h-12 w-16 object-cover rounded" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {entry.result?.itemName ?? (entry.mode === 'damage' ? 'Damage assessment' : 'Item')}
+                          {entry.images.length > 1 && <span className="text-xs text-muted-foreground"> ({entry.images.length} photos)</span>}
+                        </p>
+                        {entry.roomId && <p className="text-xs text-muted-foreground truncate">{roomLabel(entry.roomId)}</p>}
+                        <p className={`text-xs flex items-center ${entry.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {(entry.status === 'queued' || entry.status === 'running') && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                          {entry.status === 'failed' ? entry.error : QUEUE_STATUS_LABELS[entry.status]}
+                          {entry.result?.ensemble?.disagreement && (
+                            <span className="ml-2 rounded px-1.5 py-0.5 bg-amber-100 text-amber-800">Models disagree</span>
+                          )}
+                        </p>
+                      </div>
+                      {entry.status === 'succeeded' && (
+                        <Button size="sm" onClick={() => handleOpenReview(entry)}>Review</Button>
+                      )}
+                      {entry.status === 'failed' && (
+                        <Button size="sm" variant="outline" onClick={() => runAnalysis(entry)}>
+                          <RefreshCcw className="mr-1 h-4 w-4" /> Retry
+                        </Button>
+                      )}
+                      {(entry.status === 'succeeded' || entry.status === 'failed') && (
+                        <Button size="sm" variant="ghost" onClick={() => removeQueuedAnalysis(entry.id)} aria-label="Remove from queue">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
       ) : (
         <div className="w-full max-w-lg space-y-3 mb-4">
-          {detectedObjects.length > 0 && (
+          {reviewEnsemble?.disagreement && reviewItems.length > 0 && (
+            <Card className="border-amber-300 bg-amber-50">
+              <CardHeader className="pb-2 pt-3 px-4">
+                <CardTitle className="text-lg flex items-center"><AlertTriangle className="mr-2 h-4 w-4 text-amber-600" /> Models Disagree</CardTitle>
+                <CardDescription>
+                  The two models differ on the item's {reviewEnsemble.reasons.join(' and ')}. Choose the answer to use for the main item.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 pb-3 space-y-2">
+                {reviewEnsemble.candidates.map((candidate, index) => (
+                  <label key={index} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="ensemble-candidate"
+                      checked={chosenCandidate === index}
+                      onChange={() => handleChooseCandidate(index, candidate)}
+                      className="mt-1 h-4 w-4 accent-primary"
+                    />
+                    <span>
+                      <span className="font-medium">{candidate.itemName}</span>
+                      <span className="text-sm"> - ${candidate.estimatedValue.toLocaleString()} ({Math.round(candidate.confidence * 100)}%)</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {candidate.model}{candidate.promptVariant !== 'standard' && `, ${candidate.promptVariant} prompt`}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+          {reviewItems.length > 0 && (
             <Card className="bg-accent/50">
               <CardHeader className="pb-2 pt-3 px-4">
                 <CardTitle className="text-lg">Detected Items:</CardTitle>
+                <CardDescription>
+                  Select every item to save from this capture. Room: {roomLabel(reviewingEntry ? reviewingEntry.roomId : currentRoomId)}
+                </CardDescription>
               </CardHeader>
-              <CardContent className="px-4 pb-3 space-y-4">
-                <div className="flex space-x-2 overflow-x-auto py-2 scrollbar-thin scrollbar-thumb-primary scrollbar-track-transparent">
-                  {detectedObjects.map((object, index) => (
-                    <Button
-                      key={index}
-                      variant={selectedObjectIndex === index ? "default" : "outline"}
-                      className="flex-shrink-0"
-                      onClick={() => handleObjectSelect(index)}
-                    >
-                      {object.name}
-                      {object.confidence < 1 && (
-                        <span className="ml-2 text-xs opacity-70">
-                          {Math.round(object.confidence * 100)}%
+              <CardContent className="px-4 pb-3">
+                <ul className="divide-y divide-border">
+                  {reviewItems.map((item, index) => (
+                    <li key={index} className="py-3 space-y-2">
+                      <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={item.selected}
+                          onChange={() => handleObjectSelect(index)}
+                          className="h-4 w-4 accent-primary"
+                        />
+                        <span className={`font-medium ${item.selected ? 'text-primary' : ''}`}>{item.name}</span>
+                        <span className="text-xs opacity-70">
+                          {Math.round(item.confidence * 100)}%
                         </span>
+                        {item.needsReview && (
+                          <span className="text-xs rounded px-1.5 py-0.5 bg-amber-100 text-amber-800" title="Below the insurer's confidence threshold; an adjuster will review it after saving">
+                            Needs review
+                          </span>
+                        )}
+                      </label>
+                      {item.selected && (
+                        <div className="flex flex-wrap items-center gap-2 pl-6">
+                          <Label htmlFor={`value-${index}`} className="text-sm">Replacement ($):</Label>
+                          <Input
+                            type="number"
+                            id={`value-${index}`}
+                            min={0}
+                            value={item.estimatedValue}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewItem(index, { estimatedValue: Math.max(0, parseFloat(e.target.value) || 0), valueSource: 'manual' })}
+                            className="w-24 h-9"
+                          />
+                          <span
+                            className={`text-xs rounded px-1.5 py-0.5 ${item.valueSource === 'catalog' ? 'bg-green-100 text-green-800' : 'bg-muted text-muted-foreground'}`}
+                            title={item.valueSource === 'catalog' ? `Matched "${item.catalogEntryName}"; AI estimate was $${(item.modelEstimatedValue ?? 0).toLocaleString()}` : undefined}
+                          >
+                            {VALUE_SOURCE_LABELS[item.valueSource]}
+                          </span>
+                          <Label htmlFor={`quantity-${index}`} className="text-sm">Qty:</Label>
+                          <Button variant="outline" size="icon" onClick={() => updateReviewItem(index, { quantity: Math.max(1, item.quantity - 1), quantitySource: 'manual' })}><Minus className="h-4 w-4"/></Button>
+                          <Input 
+                            type="number" 
+                            id={`quantity-${index}`} 
+                            value={item.quantity} 
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewItem(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1), quantitySource: 'manual' })} 
+                            className="w-16 text-center h-9"
+                          />
+                          <Button variant="outline" size="icon" onClick={() => updateReviewItem(index, { quantity: item.quantity + 1, quantitySource: 'manual' })}><Plus className="h-4 w-4"/></Button>
+                          {item.quantitySource === 'model' && (
+                            <span className="text-xs rounded px-1.5 py-0.5 bg-muted text-muted-foreground">AI count</span>
+                          )}
+                        </div>
+                      )}
+                      {item.selected && (
+                        <div className="flex flex-wrap items-center gap-2 pl-6">
+                          <select
+                            aria-label="Category"
+                            value={item.category}
+                            onChange={(e) => updateReviewItem(index, { category: e.target.value })}
+                            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                          >
+                            {ASSET_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                          </select>
+                          <select
+                            aria-label="Condition"
+                            value={item.condition}
+                            onChange={(e) => updateReviewItem(index, { condition: e.target.value as ItemCondition })}
+                            className="h-9 rounded-md border border-input bg-background px-2 text-sm capitalize"
+                          >
+                            {ITEM_CONDITIONS.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                          <Label htmlFor={`age-${index}`} className="text-sm">Age (yrs):</Label>
+                          <Input
+                            type="number"
+                            id={`age-${index}`}
+                            min={0}
+                            step="0.5"
+                            placeholder="?"
+                            value={item.ageYears ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewItem(index, { ageYears: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-16 text-center h-9"
+                          />
+                          <span className="text-sm text-muted-foreground">ACV: ${actualCashValueFor(item).toLocaleString()}</span>
+                        </div>
+                      )}
+                      {item.selected && (
+                        <div className="grid grid-cols-2 gap-2 pl-6">
+                          {LABEL_FIELD_INPUTS.map(field => (
+                            <Input
+                              key={field.key}
+                              aria-label={field.label}
+                              placeholder={field.label}
+                              value={item[field.key] ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewItem(index, { [field.key]: e.target.value })}
+                              className="h-9"
+                            />
+                          ))}
+                        </div>
                       )}
-                    </Button>
+                      {item.selected && scanMode === 'damage' && (
+                        <div className="flex flex-wrap items-center gap-2 pl-6">
+                          <select
+                            aria-label="Damage type"
+                            value={item.damage?.type ?? 'none'}
+                            onChange={(e) => updateReviewDamage(index, item, { type: e.target.value as DamageType })}
+                            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                          >
+                            {DAMAGE_TYPES.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                          </select>
+                          <Label htmlFor={`severity-${index}`} className="text-sm">Severity (%):</Label>
+                          <Input
+                            type="number"
+                            id={`severity-${index}`}
+                            min={0}
+                            max={100}
+                            value={Math.round((item.damage?.severity ?? 0) * 100)}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewDamage(index, item, { severity: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                            className="w-16 text-center h-9"
+                          />
+                          <Label htmlFor={`loss-${index}`} className="text-sm">Loss ($):</Label>
+                          <Input
+                            type="number"
+                            id={`loss-${index}`}
+                            min={0}
+                            value={estimatedLossFor(item) ?? 0}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReviewItem(index, { lossOverride: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-24 h-9"
+                          />
+                          {item.damage?.description && (
+                            <p className="w-full text-xs text-muted-foreground">{item.damage.description}</p>
+                          )}
+                        </div>
+                      )}
+                    </li>
                   ))}
-                </div>
-
-                <div className="space-y-1">
-                  <p className="text-xl font-semibold text-primary">{inferenceResult?.itemName}</p>
-                  <p className="text-md">Estimated Value: <span className="font-semibold">${inferenceResult?.estimatedValue.toLocaleString()}</span></p>
-                  <div className="flex items-center space-x-2 pt-2">
-                    <Label htmlFor="quantity" className="text-sm">Quantity:</Label>
-                    <Button variant="outline" size="icon" onClick={() => setQuantity(q => Math.max(1, q - 1))}><Minus className="h-4 w-4"/></Button>
-                    <Input 
-                      type="number" 
-                      id="quantity" 
-                      value={quantity} 
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(Math.max(1, parseInt(e.target.value, 10) || 1))} 
-                      className="w-16 text-center h-9"
-                    />
-                    <Button variant="outline" size="icon" onClick={() => setQuantity(q => q + 1)}><Plus className="h-4 w-4"/></Button>
-                  </div>
-                </div>
+                </ul>
               </CardContent>
             </Card>
           )}
 
           <div className="grid grid-cols-2 gap-3">
             <Button onClick={() => { 
-              setCapturedImage(null); 
-              setInferenceResult(null);
-              setDetectedObjects([]);
-            }} variant="outline" disabled={isSaving || isInferring}>
+              // Discards this capture's results
+              if (reviewingId) removeQueuedAnalysis(reviewingId);
+              handleNextItem();
+            }} variant="outline" disabled={isSaving}>
               <RefreshCcw className="mr-2 h-4 w-4" /> Retake
             </Button>
-            <Button onClick={handleSaveItem} disabled={!inferenceResult || isSaving || isInferring}>
+            <Button onClick={handleSaveItem} disabled={selectedReviewItems.length === 0 || isSaving}>
               {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <UploadCloud className="mr-2 h-4 w-4" />}
-              Save & Add to List
+              Save {selectedReviewItems.length > 1 ? `${selectedReviewItems.length} Items` : '& Add to List'}
             </Button>
           </div>
-          {scannedItemsToday.length > 0 && inferenceResult && (
-            <Button onClick={handleNextItem} variant="default" className="w-full bg-green-600 hover:bg-green-700 text-white" disabled={isSaving || isInferring}>
+          {scannedItemsToday.length > 0 && reviewItems.length > 0 && (
+            <Button onClick={handleNextItem} variant="default" className="w-full bg-green-600 hover:bg-green-700 text-white" disabled={isSaving}>
               <Send className="mr-2 h-4 w-4" /> Scan Next Item
             </Button>
           )}
@@ -12,35 +12,180 @@ import {
   ExternalLink,
   Copy,
   Trash2,
-  Eye
+  Eye,
+  Pencil
 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { toast } from "sonner";
+import DepreciationSchedulesDialog from '@/components/DepreciationSchedulesDialog';
+import PriceCatalogDialog from '@/components/PriceCatalogDialog';
+import PromptTemplatesDialog from '@/components/PromptTemplatesDialog';
+import ReviewQueueDialog from '@/components/ReviewQueueDialog';
+import InferenceAuditPanel from '@/components/InferenceAuditPanel';
+import ItemEditDialog from '@/components/ItemEditDialog';
+import ItemHistoryPanel from '@/components/ItemHistoryPanel';
+import DeletedItemsPanel from '@/components/DeletedItemsPanel';
+import { categoryLabel, type DepreciationSchedule, type ItemCondition } from '@/lib/depreciation';
+import { damageLabel } from '@/lib/damage';
+import { createSignedImageUrls } from '@/lib/itemImages';
+import { itemUpdateFor, type ItemEdits } from '@/lib/itemEdits';
 
 interface School {
   id: string;
   name: string;
   city: string;
   admin_access_key: string;
+  inference_cache_ttl_minutes: number;
+  monthly_budget_usd: number | null;
   total_estimated_value?: number;
+  total_actual_cash_value?: number;
+  total_estimated_loss?: number;
   item_count?: number;
+  needs_review_count?: number;
+  // Inference usage in the current UTC month
+  monthly_runs?: number;
+  monthly_tokens?: number;
+  monthly_cost_usd?: number;
 }
 
+// A row of the monthly_inference_usage view
+interface UsageRow {
+  school_id: string | null;
+  insurance_company_id: string | null;
+  runs: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+}
+
+// Usage is bucketed by UTC calendar month, matching the budget check in the Edge Function
+const currentUsageMonth = () => new Date().toISOString().slice(0, 7) + '-01';
+
+const formatUsd = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: amount < 1 ? 4 : 2 });
+
 interface Item {
   id: string;
   name: string;
   estimated_value: number;
+  actual_cash_value: number | null;
+  category: string;
+  age_years: number | null;
+  condition: ItemCondition | null;
+  scan_mode: 'inventory' | 'damage';
+  damage_type: string | null;
+  damage_severity: number | null;
+  damage_description: string | null;
+  estimated_loss: number | null;
+  manufacturer: string | null;
+  model_number: string | null;
+  serial_number: string | null;
+  asset_tag: string | null;
+  value_source: 'catalog' | 'model' | 'manual';
+  confidence: number | null;
+  review_status: 'approved' | 'needs_review' | 'rejected';
+  inference_run_id: string | null;
+  prompt_template_version: number | null;
   quantity: number;
+  quantity_source: 'model' | 'manual' | null;
+  // Data URL of items saved before photos moved to storage
+  image_url: string | null;
+  thumbnail_path: string | null;
+  notes: string | null;
   school_id: string;
+  room_id: string | null;
+  room: { id: string; name: string; building: { id: string; name: string } | null } | null;
+}
+
+interface Building {
+  id: string;
+  name: string;
+  rooms: { id: string; name: string }[];
+}
+
+// Items of one room, or of no room, with their building
+interface RoomGroup {
+  key: string;
+  name: string;
+  items: Item[];
 }
 
+interface BuildingGroup extends RoomGroup {
+  rooms: RoomGroup[];
+}
+
+/**
+ * Groups items by building and then room, both sorted by name. Items without
+ * a room come last, under their own heading.
+ */
+const groupItemsByLocation = (items: Item[]): BuildingGroup[] => {
+  const buildings = new Map<string, BuildingGroup>();
+  for (const item of items) {
+    const building = item.room?.building;
+    const buildingKey = building?.id ?? 'none';
+    if (!buildings.has(buildingKey)) {
+      buildings.set(buildingKey, { key: buildingKey, name: building?.name ?? 'No room set', items: [], rooms: [] });
+    }
+    const group = buildings.get(buildingKey)!;
+    group.items.push(item);
+    const roomKey = item.room?.id ?? 'none';
+    let room = group.rooms.find(r => r.key === roomKey);
+    if (!room) {
+      room = { key: roomKey, name: item.room?.name ?? '', items: [] };
+      group.rooms.push(room);
+    }
+    room.items.push(item);
+  }
+  const byName = (a: RoomGroup, b: RoomGroup) => a.key === 'none' ? 1 : b.key === 'none' ? -1 : a.name.localeCompare(b.name);
+  return [...buildings.values()]
+    .map(group => ({ ...group, rooms: group.rooms.sort(byName) }))
+    .sort(byName);
+};
+
+// What one item adds to its school's card totals
+const itemTotals = (item: Item) => ({
+  value: item.estimated_value * item.quantity,
+  actualCashValue: (item.actual_cash_value ?? item.estimated_value) * item.quantity,
+  loss: (item.estimated_loss ?? 0) * item.quantity,
+});
+
+const formatSubtotals = (items: Item[]) => {
+  const replacement = items.reduce((sum, item) => sum + item.estimated_value * item.quantity, 0);
+  const actualCashValue = items.reduce((sum, item) => sum + (item.actual_cash_value ?? item.estimated_value) * item.quantity, 0);
+  const loss = items.reduce((sum, item) => sum + (item.estimated_loss ?? 0) * item.quantity, 0);
+  return `${items.length} item(s) | Replacement: $${replacement.toLocaleString()} | ACV: $${actualCashValue.toLocaleString()}${loss > 0 ? ` | Loss: $${loss.toLocaleString()}` : ''}`;
+};
+
+const VALUE_SOURCE_LABELS: Record<Item['value_source'], string> = {
+  catalog: 'catalog price',
+  model: 'AI estimate',
+  manual: 'entered by surveyor',
+};
+
+// How long a school's scanner reuses results for retaken photos of the same item
+const CACHE_TTL_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 1440, label: '1 day' },
+  { minutes: 10080, label: '7 days' },
+];
+
 export default function DashboardPage() {
   const [schools, setSchools] = useState<School[]>([]);
   const [selectedSchoolItems, setSelectedSchoolItems] = useState<Item[]>([]);
   const [selectedSchoolForItems, setSelectedSchoolForItems] = useState<School | null>(null);
+  const [auditItemId, setAuditItemId] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<Item | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [showDeletedItems, setShowDeletedItems] = useState(false);
+  // Buildings and rooms of the school whose items are open
+  const [schoolBuildings, setSchoolBuildings] = useState<Building[]>([]);
+  const [schedules, setSchedules] = useState<DepreciationSchedule[]>([]);
+  // Signed thumbnail URLs by object path
+  const [itemImageUrls, setItemImageUrls] = useState<Record<string, string>>({});
   const [newSchoolName, setNewSchoolName] = useState('');
   const [newSchoolCity, setNewSchoolCity] = useState('');
   const [addingSchool, setAddingSchool] = useState(false);
+  const [insurerUsage, setInsurerUsage] = useState({ runs: 0, tokens: 0, costUsd: 0 });
 
   useEffect(() => {
     fetchSchoolsAndItems();
@@ -59,9 +204,35 @@ export default function DashboardPage() {
     // Fetch schools - no need for profiles table
     const { data: schoolsData, error: schoolsError } = await supabase
       .from('schools')
-      .select('id, name, city, admin_access_key')
+      .select('id, name, city, admin_access_key, inference_cache_ttl_minutes, monthly_budget_usd')
       .eq('insurance_company_id', userId);
 
+    const { data: schedulesData, error: schedulesError } = await supabase
+      .from('depreciation_schedules')
+      .select('id, category, method, useful_life_years, salvage_percent, condition_factors')
+      .eq('insurance_company_id', userId);
+    if (schedulesError) {
+      // Defaults in lib/depreciation still give a usable ACV when editing items
+      console.error("Error fetching depreciation schedules:", schedulesError);
+    } else {
+      setSchedules((schedulesData || []) as DepreciationSchedule[]);
+    }
+
+    const { data: usageData, error: usageError } = await supabase
+      .from('monthly_inference_usage')
+      .select('school_id, insurance_company_id, runs, total_tokens, estimated_cost_usd')
+      .eq('month', currentUsageMonth());
+    if (usageError) {
+      console.error("Error fetching inference usage:", usageError);
+    }
+    const usageRows: UsageRow[] = usageData || [];
+    const billedToInsurer = usageRows.filter(row => row.insurance_company_id === userId);
+    setInsurerUsage({
+      runs: billedToInsurer.reduce((sum, row) => sum + Number(row.runs), 0),
+      tokens: billedToInsurer.reduce((sum, row) => sum + Number(row.total_tokens), 0),
+      costUsd: billedToInsurer.reduce((sum, row) => sum + Number(row.estimated_cost_usd), 0),
+    });
+
     if (schoolsError) {
       console.error("Error fetching schools:", schoolsError);
       toast.error("Failed to fetch schools: " + schoolsError.message);
@@ -70,14 +241,32 @@ export default function DashboardPage() {
       const schoolsWithAggregates = await Promise.all(schoolsData.map(async (school) => {
         const { data: itemsData, count } = await supabase
           .from('items')
-          .select('estimated_value, quantity', { count: 'exact' })
-          .eq('school_id', school.id);
+          .select('estimated_value, actual_cash_value, estimated_loss, quantity, review_status', { count: 'exact' })
+          .eq('school_id', school.id)
+          .neq('review_status', 'rejected');
         
         let totalValue = 0;
+        let totalActualCashValue = 0;
+        let totalLoss = 0;
+        let needsReviewCount = 0;
         if (itemsData) {
           totalValue = itemsData.reduce((sum, item) => sum + (item.estimated_value * item.quantity), 0);
+          totalActualCashValue = itemsData.reduce((sum, item) => sum + ((item.actual_cash_value ?? item.estimated_value) * item.quantity), 0);
+          totalLoss = itemsData.reduce((sum, item) => sum + ((item.estimated_loss ?? 0) * item.quantity), 0);
+          needsReviewCount = itemsData.filter(item => item.review_status === 'needs_review').length;
         }
-        return { ...school, total_estimated_value: totalValue, item_count: count || 0 };
+        const schoolUsage = usageRows.filter(row => row.school_id === school.id);
+        return {
+          ...school,
+          total_estimated_value: totalValue,
+          total_actual_cash_value: totalActualCashValue,
+          total_estimated_loss: totalLoss,
+          item_count: count || 0,
+          needs_review_count: needsReviewCount,
+          monthly_runs: schoolUsage.reduce((sum, row) => sum + Number(row.runs), 0),
+          monthly_tokens: schoolUsage.reduce((sum, row) => sum + Number(row.total_tokens), 0),
+          monthly_cost_usd: schoolUsage.reduce((sum, row) => sum + Number(row.estimated_cost_usd), 0),
+        };
       }));
       setSchools(schoolsWithAggregates);
     }
@@ -112,7 +301,7 @@ export default function DashboardPage() {
       toast.error("Failed to add school: " + error.message);
     } else if (data) {
       toast.success(`School '${newSchoolName}' added successfully!`);
-      const newSchoolEntry: School = { ...data[0], total_estimated_value: 0, item_count: 0 };
+      const newSchoolEntry: School = { ...data[0], total_estimated_value: 0, total_actual_cash_value: 0, item_count: 0, monthly_runs: 0, monthly_tokens: 0, monthly_cost_usd: 0 };
       setSchools([...schools, newSchoolEntry]);
       setNewSchoolName('');
       setNewSchoolCity('');
@@ -141,35 +330,250 @@ export default function DashboardPage() {
     }
   };
 
+  const handleCacheTtlChange = async (school: School, minutes: number) => {
+    const { error } = await supabase
+      .from('schools')
+      .update({ inference_cache_ttl_minutes: minutes })
+      .match({ id: school.id });
+    if (error) {
+      toast.error(`Failed to update result cache: ${error.message}`);
+    } else {
+      setSchools(prev => prev.map(s => s.id === school.id ? { ...s, inference_cache_ttl_minutes: minutes } : s));
+    }
+  };
+
+  const handleBudgetChange = async (school: School, value: string) => {
+    const budget = value.trim() === '' ? null : parseFloat(value);
+    if (budget !== null && !(budget >= 0)) {
+      toast.error("Budget must be a non-negative amount, or empty for no cap.");
+      return;
+    }
+    if (budget === school.monthly_budget_usd) return;
+    const { error } = await supabase
+      .from('schools')
+      .update({ monthly_budget_usd: budget })
+      .match({ id: school.id });
+    if (error) {
+      toast.error(`Failed to update budget: ${error.message}`);
+    } else {
+      setSchools(prev => prev.map(s => s.id === school.id ? { ...s, monthly_budget_usd: budget } : s));
+      toast.success(budget === null ? `Removed the scanning budget for ${school.name}.` : `${school.name} can spend up to ${formatUsd(budget)} on scans per month.`);
+    }
+  };
+
   const fetchItemsForSchool = async (school: School) => {
     setSelectedSchoolForItems(school);
-    const { data, error } = await supabase
-      .from('items')
-      .select('*')
-      .eq('school_id', school.id)
-      .order('created_at', { ascending: false });
+    const [{ data, error }, buildingsResult] = await Promise.all([
+      supabase
+        .from('items')
+        .select('*, room:rooms(id, name, building:buildings(id, name))')
+        .eq('school_id', school.id)
+        .neq('review_status', 'rejected')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('buildings')
+        .select('id, name, rooms(id, name)')
+        .eq('school_id', school.id)
+        .order('name'),
+    ]);
+    if (buildingsResult.error) {
+      console.error("Error fetching buildings:", buildingsResult.error);
+    }
+    setSchoolBuildings((buildingsResult.data || []) as Building[]);
     if (error) {
       toast.error(`Failed to fetch items for ${school.name}: ${error.message}`);
       setSelectedSchoolItems([]);
     } else {
       setSelectedSchoolItems(data || []);
+      setItemImageUrls(await createSignedImageUrls((data || []).flatMap(item => item.thumbnail_path ? [item.thumbnail_path] : [])));
     }
   };
 
-  const handleDeleteItem = async (itemId: string, itemName: string) => {
-    if (!window.confirm(`Are you sure you want to delete "${itemName}"? This action cannot be undone.`)) {
+  /**
+   * Moves a school's card totals from `before` to `after` without refetching;
+   * null means the item isn't (or is no longer) counted.
+   */
+  const adjustSchoolTotals = (schoolId: string, before: Item | null, after: Item | null) => {
+    const zero = { value: 0, actualCashValue: 0, loss: 0 };
+    const removed = before ? itemTotals(before) : zero;
+    const added = after ? itemTotals(after) : zero;
+    setSchools(prev => prev.map(s => s.id !== schoolId ? s : {
+      ...s,
+      total_estimated_value: (s.total_estimated_value ?? 0) - removed.value + added.value,
+      total_actual_cash_value: (s.total_actual_cash_value ?? 0) - removed.actualCashValue + added.actualCashValue,
+      total_estimated_loss: (s.total_estimated_loss ?? 0) - removed.loss + added.loss,
+      item_count: (s.item_count ?? 0) - (before ? 1 : 0) + (after ? 1 : 0),
+    }));
+  };
+
+  const handleDeleteItem = async (item: Item) => {
+    if (!window.confirm(`Are you sure you want to delete "${item.name}"? You can restore it later from "Deleted items".`)) {
       return;
     }
-    const { error } = await supabase.from('items').delete().match({ id: itemId });
+    setSelectedSchoolItems(prev => prev.filter(i => i.id !== item.id));
+    adjustSchoolTotals(item.school_id, item, null);
+    const { error } = await supabase.from('items').delete().match({ id: item.id });
     if (error) {
       toast.error(`Failed to delete item: ${error.message}`);
+      setSelectedSchoolItems(prev => [item, ...prev]);
+      adjustSchoolTotals(item.school_id, null, item);
     } else {
-      toast.success(`Item "${itemName}" deleted successfully.`);
-      setSelectedSchoolItems(prev => prev.filter(item => item.id !== itemId));
+      toast.success(`Item "${item.name}" deleted successfully.`);
       fetchSchoolsAndItems();
     }
   };
 
+  // The joined room for an edited room id, so grouping follows the change
+  const roomFor = (item: Item, roomId: string | null): Item['room'] => {
+    if (roomId === null) return null;
+    if (roomId === item.room?.id) return item.room;
+    for (const building of schoolBuildings) {
+      const room = building.rooms.find(r => r.id === roomId);
+      if (room) return { id: room.id, name: room.name, building: { id: building.id, name: building.name } };
+    }
+    return null;
+  };
+
+  // Shown straight away and rolled back if the update fails
+  const handleSaveItemEdits = async (edits: ItemEdits) => {
+    const item = editingItem;
+    if (!item) return;
+    setEditingItem(null);
+    const update = itemUpdateFor(item, edits, schedules);
+    const updated: Item = { ...item, ...update, room: roomFor(item, update.room_id) };
+    setSelectedSchoolItems(prev => prev.map(i => i.id === item.id ? updated : i));
+    adjustSchoolTotals(item.school_id, item, updated);
+    const { error } = await supabase.from('items').update(update).eq('id', item.id);
+    if (error) {
+      toast.error(`Failed to update "${item.name}": ${error.message}`);
+      setSelectedSchoolItems(prev => prev.map(i => i.id === item.id ? item : i));
+      adjustSchoolTotals(item.school_id, updated, item);
+    } else {
+      toast.success(`Saved changes to "${updated.name}".`);
+    }
+  };
+
+  // A restore can bring back any earlier state, including a rejection
+  const handleItemRestored = (previous: Item, restored: Item) => {
+    const counted = restored.review_status !== 'rejected';
+    setSelectedSchoolItems(prev => counted ? prev.map(i => i.id === restored.id ? restored : i) : prev.filter(i => i.id !== restored.id));
+    adjustSchoolTotals(restored.school_id, previous, counted ? restored : null);
+  };
+
+  // A deleted item brought back from its last snapshot
+  const handleItemUndeleted = async (restored: Item) => {
+    if (restored.review_status === 'rejected') return;
+    setSelectedSchoolItems(prev => [restored, ...prev]);
+    adjustSchoolTotals(restored.school_id, null, restored);
+    if (restored.thumbnail_path) {
+      const signed = await createSignedImageUrls([restored.thumbnail_path]);
+      setItemImageUrls(prev => ({ ...prev, ...signed }));
+    }
+  };
+
+  const roomNames = Object.fromEntries(schoolBuildings.flatMap(building => building.rooms.map(room => [room.id, `${building.name} / ${room.name}`])));
+
+  const renderItemCard = (item: Item) => {
+    const imageSrc = item.thumbnail_path ? itemImageUrls[item.thumbnail_path] : item.image_url;
+    return (
+      <Card key={item.id}>
+        <CardContent className="flex justify-between items-center gap-4 p-4">
+          {imageSrc && (
+            <img src={imageSrc} alt={item.name} className="w-16 h-16 object-cover rounded" />
+          )}
+          <div className="flex-1">
+            <h4 className="font-semibold">
+              {item.name}
+              {item.review_status === 'needs_review' && (
+                <span className="ml-2 text-xs font-normal rounded px-1.5 py-0.5 bg-amber-100 text-amber-800">Needs review</span>
+              )}
+            </h4>
+            <p className="text-sm text-gray-500">
+              {categoryLabel(item.category)} | Quantity: {item.quantity}{item.quantity_source === 'model' && ' (AI count)'} | Replacement: ${item.estimated_value.toLocaleString()} ({VALUE_SOURCE_LABELS[item.value_source] ?? 'AI estimate'}) | ACV: ${(item.actual_cash_value ?? item.estimated_value).toLocaleString()}
+            </p>
+            {(item.condition || item.age_years !== null) && (
+              <p className="text-xs text-gray-400 capitalize">
+                {item.condition ?? 'Unknown condition'}{item.age_years !== null ? `, ${item.age_years} yrs old` : ''}
+              </p>
+            )}
+            {item.prompt_template_version !== null && (
+              <p className="text-xs text-gray-400">
+                Prompt template: {item.prompt_template_version === 0 ? 'built-in' : `version ${item.prompt_template_version}`}
+              </p>
+            )}
+            {(item.manufacturer || item.model_number || item.serial_number || item.asset_tag) && (
+              <p className="text-sm text-gray-500">
+                {[
+                  item.manufacturer && `Manufacturer: ${item.manufacturer}`,
+                  item.model_number && `Model: ${item.model_number}`,
+                  item.serial_number && `Serial: ${item.serial_number}`,
+                  item.asset_tag && `Asset tag: ${item.asset_tag}`,
+                ].filter(Boolean).join(' | ')}
+              </p>
+            )}
+            {item.scan_mode === 'damage' && item.damage_type && (
+              <p className="text-sm text-red-600">
+                Damage: {damageLabel(item.damage_type)}
+                {item.damage_severity !== null && ` (${Math.round(item.damage_severity * 100)}% severity)`}
+                {item.estimated_loss !== null && ` | Loss: $${item.estimated_loss.toLocaleString()} each`}
+                {item.damage_description && ` | ${item.damage_description}`}
+              </p>
+            )}
+            {item.notes && (
+              <p className="text-sm text-gray-600 whitespace-pre-line">{item.notes}</p>
+            )}
+            {item.inference_run_id && (
+              <button
+                className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+                onClick={() => setAuditItemId(auditItemId === item.id ? null : item.id)}
+              >
+                {auditItemId === item.id ? 'Hide inference details' : 'How was this valued?'}
+              </button>
+            )}
+            {auditItemId === item.id && item.inference_run_id && (
+              <div className="mt-2">
+                <InferenceAuditPanel runId={item.inference_run_id} />
+              </div>
+            )}
+            <button
+              className="block text-xs text-blue-600 hover:text-blue-800 mt-1"
+              onClick={() => setHistoryItemId(historyItemId === item.id ? null : item.id)}
+            >
+              {historyItemId === item.id ? 'Hide change history' : 'Change history'}
+            </button>
+            {historyItemId === item.id && (
+              <div className="mt-2">
+                <ItemHistoryPanel
+                  itemId={item.id}
+                  roomNames={roomNames}
+                  onRestored={(restored: Item) => handleItemRestored(item, restored)}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditingItem(item)}
+              aria-label={`Edit ${item.name}`}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteItem(item)}
+              aria-label={`Delete ${item.name}`}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-8">
@@ -179,51 +583,66 @@ export default function DashboardPage() {
           transition={{ duration: 0.5 }}
         >
           <div className="flex justify-between items-center mb-8">
-            <h1 className="text-3xl font-bold text-gray-900">Schools Dashboard</h1>
-            <Dialog>
-              <DialogTrigger asChild>
-                <Button className="bg-green-600 hover:bg-green-700">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add School
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New School</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">School Name</Label>
-                    <Input
-                      id="name"
-                      placeholder="Enter school name"
-                      value={newSchoolName}
-                      onChange={(e) => setNewSchoolName(e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="city">City</Label>
-                    <Input
-                      id="city"
-                      placeholder="Enter city"
-                      value={newSchoolCity}
-                      onChange={(e) => setNewSchoolCity(e.target.value)}
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button
-                    type="submit"
-                    onClick={handleAddSchool}
-                    disabled={addingSchool}
-                    className="bg-green-600 hover:bg-green-700"
-                  >
-                    {addingSchool ? 'Adding...' : 'Add School'}
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Schools Dashboard</h1>
+              <p className="text-sm text-gray-500">
+                AI usage this month: {insurerUsage.runs.toLocaleString()} scans, {insurerUsage.tokens.toLocaleString()} tokens, {formatUsd(insurerUsage.costUsd)} estimated
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <ReviewQueueDialog
+                schools={schools}
+                pendingCount={schools.reduce((sum, school) => sum + (school.needs_review_count ?? 0), 0)}
+                onReviewed={fetchSchoolsAndItems}
+              />
+              <PriceCatalogDialog />
+              <PromptTemplatesDialog />
+              <DepreciationSchedulesDialog />
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button className="bg-green-600 hover:bg-green-700">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add School
                   </Button>
-                  <DialogClose id="close-add-school-dialog" />
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New School</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">School Name</Label>
+                      <Input
+                        id="name"
+                        placeholder="Enter school name"
+                        value={newSchoolName}
+                        onChange={(e) => setNewSchoolName(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="city">City</Label>
+                      <Input
+                        id="city"
+                        placeholder="Enter city"
+                        value={newSchoolCity}
+                        onChange={(e) => setNewSchoolCity(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button
+                      type="submit"
+                      onClick={handleAddSchool}
+                      disabled={addingSchool}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      {addingSchool ? 'Adding...' : 'Add School'}
+                    </Button>
+                    <DialogClose id="close-add-school-dialog" />
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -263,15 +682,67 @@ export default function DashboardPage() {
                   <CardContent>
                     <div className="space-y-4">
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-500">Total Value</span>
+                        <span className="text-sm text-gray-500">Replacement Cost</span>
                         <span className="font-semibold">
                           ${school.total_estimated_value?.toLocaleString() || '0'}
                         </span>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-500">Actual Cash Value</span>
+                        <span className="font-semibold">
+                          ${school.total_actual_cash_value?.toLocaleString() || '0'}
+                        </span>
+                      </div>
+                      {!!school.total_estimated_loss && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-500">Estimated Loss</span>
+                          <span className="font-semibold text-red-600">
+                            ${school.total_estimated_loss.toLocaleString()}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-500">Items</span>
                         <span className="font-semibold">{school.item_count || 0}</span>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <Label htmlFor={`cache-ttl-${school.id}`} className="text-sm text-gray-500 font-normal">Reuse results for retaken photos</Label>
+                        <select
+                          id={`cache-ttl-${school.id}`}
+                          value={school.inference_cache_ttl_minutes}
+                          onChange={(e) => handleCacheTtlChange(school, parseInt(e.target.value, 10))}
+                          className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                        >
+                          {!CACHE_TTL_OPTIONS.some(o => o.minutes === school.inference_cache_ttl_minutes) && (
+                            <option value={school.inference_cache_ttl_minutes}>{school.inference_cache_ttl_minutes} min</option>
+                          )}
+                          {CACHE_TTL_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-500">AI usage this month</span>
+                        <span
+                          className={`font-semibold ${school.monthly_budget_usd !== null && (school.monthly_cost_usd ?? 0) >= school.monthly_budget_usd ? 'text-red-600' : ''}`}
+                          title={`${(school.monthly_runs ?? 0).toLocaleString()} scans, ${(school.monthly_tokens ?? 0).toLocaleString()} tokens`}
+                        >
+                          {formatUsd(school.monthly_cost_usd ?? 0)}
+                          {school.monthly_budget_usd !== null && ` / ${formatUsd(school.monthly_budget_usd)}`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <Label htmlFor={`budget-${school.id}`} className="text-sm text-gray-500 font-normal">Monthly budget ($)</Label>
+                        <Input
+                          key={school.monthly_budget_usd ?? 'none'}
+                          id={`budget-${school.id}`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          placeholder="No cap"
+                          defaultValue={school.monthly_budget_usd ?? ''}
+                          onBlur={(e) => handleBudgetChange(school, e.target.value)}
+                          className="h-8 w-28 text-right"
+                        />
+                      </div>
                       <div className="flex items-center space-x-2 mt-2">
                         <a
                           href={`${window.location.origin}/admin/${school.admin_access_key}`}
@@ -314,27 +785,27 @@ export default function DashboardPage() {
                     Items for {selectedSchoolForItems.name}
                   </DialogTitle>
                 </DialogHeader>
-                <div className="mt-4">
+                <div className="mt-4 max-h-[70vh] overflow-y-auto">
                   {selectedSchoolItems.length > 0 ? (
                     <div className="space-y-4">
-                      {selectedSchoolItems.map((item) => (
-                        <Card key={item.id}>
-                          <CardContent className="flex justify-between items-center p-4">
-                            <div>
-                              <h4 className="font-semibold">{item.name}</h4>
-                              <p className="text-sm text-gray-500">
-                                Quantity: {item.quantity} | Value: ${item.estimated_value.toLocaleString()}
-                              </p>
+                      {groupItemsByLocation(selectedSchoolItems).map(building => (
+                        <div key={building.key} className="space-y-3">
+                          <div className="flex justify-between items-baseline border-b pb-1">
+                            <h3 className="text-lg font-semibold">{building.name}</h3>
+                            <span className="text-sm text-gray-500">{formatSubtotals(building.items)}</span>
+                          </div>
+                          {building.rooms.map(room => (
+                            <div key={room.key} className="space-y-2 pl-2">
+                              {room.key !== 'none' && (
+                                <div className="flex justify-between items-baseline">
+                                  <h4 className="font-medium text-gray-700">{room.name}</h4>
+                                  <span className="text-xs text-gray-500">{formatSubtotals(room.items)}</span>
+                                </div>
+                              )}
+                              {room.items.map(renderItemCard)}
                             </div>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteItem(item.id, item.name)}
-                            >
-                              <Trash2 className="h-4 w-4 text-red-500" />
-                            </Button>
-                          </CardContent>
-                        </Card>
+                          ))}
+                        </div>
                       ))}
                     </div>
                   ) : (
@@ -342,10 +813,34 @@ export default function DashboardPage() {
                       No items found for this school.
                     </p>
                   )}
+                  <div className="mt-6 border-t pt-3">
+                    <button
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                      onClick={() => setShowDeletedItems(!showDeletedItems)}
+                    >
+                      {showDeletedItems ? 'Hide deleted items' : 'Deleted items'}
+                    </button>
+                    {showDeletedItems && (
+                      <div className="mt-2">
+                        <DeletedItemsPanel
+                          schoolId={selectedSchoolForItems.id}
+                          roomNames={roomNames}
+                          onRestored={handleItemUndeleted}
+                        />
+                      </div>
+                    )}
+                  </div>
                 </div>
               </DialogContent>
             </Dialog>
           )}
+
+          <ItemEditDialog
+            item={editingItem}
+            buildings={schoolBuildings}
+            onClose={() => setEditingItem(null)}
+            onSave={handleSaveItemEdits}
+          />
         </motion.div>
       </div>
     </div>
@@ -0,0 +1,80 @@
+// Inference audit trail. Every request, successful or not, is stored in
+// inference_runs so a saved valuation can be traced back to the model output.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { TokenUsage } from './providers.ts';
+import { estimateCostUsd } from './pricing.ts';
+import type { InferenceResult, ScanMode } from './schema.ts';
+
+export interface InferenceRunRecord {
+  // The pending row reserved before the model call (see limits.ts), if any
+  id?: string;
+  schoolId: string | null;
+  // The insurer the run's cost is attributed to
+  insurerId: string | null;
+  // Who asked, for per-caller limits (see auth.ts)
+  callerId: string | null;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  mode: ScanMode;
+  imageCount: number;
+  rawResponse?: string;
+  repairResponse?: string;
+  result?: InferenceResult;
+  errorCode?: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  retryCount: number;
+}
+
+/**
+ * Sums token usage across the calls of one run (the main call and any repair).
+ */
+export const addUsage = (total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+};
+
+/**
+ * Stores a run and returns its id: completes its reserved row, or inserts one
+ * when none was reserved. Failing to write the audit row is logged but never
+ * fails the inference itself.
+ */
+export const recordInferenceRun = async (client: SupabaseClient | null, record: InferenceRunRecord): Promise<string | null> => {
+  if (!client) return null;
+  const row = {
+    school_id: record.schoolId,
+    insurance_company_id: record.insurerId,
+    caller_id: record.callerId,
+    provider: record.provider,
+    model: record.model,
+    prompt_version: record.promptVersion,
+    scan_mode: record.mode,
+    image_count: record.imageCount,
+    raw_response: record.rawResponse ?? null,
+    repair_response: record.repairResponse ?? null,
+    result: record.result ?? null,
+    error_code: record.errorCode ?? null,
+    latency_ms: record.latencyMs,
+    prompt_tokens: record.usage?.promptTokens ?? null,
+    completion_tokens: record.usage?.completionTokens ?? null,
+    total_tokens: record.usage?.totalTokens ?? null,
+    estimated_cost_usd: estimateCostUsd(record.model, record.usage),
+    retry_count: record.retryCount,
+    status: 'completed'
+  };
+  const { data, error } = record.id
+    ? await client.from('inference_runs').update(row).eq('id', record.id).select('id').single()
+    : await client.from('inference_runs').insert(row).select('id').single();
+  if (error) {
+    console.error('Could not record inference run:', error);
+    return record.id ?? null;
+  }
+  return data.id;
+};
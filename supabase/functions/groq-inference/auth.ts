@@ -0,0 +1,81 @@
+// Caller authentication. Every request must come from either a signed-in
+// insurer (their Supabase JWT in the Authorization header) or a scanner
+// holding a school's admin_access_key. Both resolve to one school, which is
+// what usage is limited and audited against.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { InferenceError } from './errors.ts';
+import { sha256Hex } from './hash.ts';
+
+export interface Caller {
+  kind: 'insurer' | 'admin_key';
+  // Stable id for per-caller limits: the insurer's user id or a hash of the key
+  callerId: string;
+  schoolId: string;
+  insurerId: string;
+}
+
+interface AuthRequest {
+  schoolId?: unknown;
+  adminAccessKey?: unknown;
+}
+
+const bearerToken = (req: Request): string | null => {
+  const header = req.headers.get('Authorization') ?? '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+/**
+ * Resolves the caller, or throws `unauthorized`. An admin access key wins over
+ * the Authorization header, since the scanner page always sends the anon key
+ * there.
+ */
+export const authenticate = async (client: SupabaseClient, req: Request, body: AuthRequest): Promise<Caller> => {
+  if (typeof body.adminAccessKey === 'string' && body.adminAccessKey) {
+    const { data: school, error } = await client
+      .from('schools')
+      .select('id, insurance_company_id')
+      .eq('admin_access_key', body.adminAccessKey)
+      .maybeSingle();
+    if (error) {
+      console.error('Could not look up admin access key:', error);
+    }
+    if (!school) {
+      throw new InferenceError('unauthorized', 'Invalid admin access key');
+    }
+    return {
+      kind: 'admin_key',
+      // Never store the key itself; a hash still tells keys apart after rotation
+      callerId: `key:${(await sha256Hex(body.adminAccessKey)).slice(0, 16)}`,
+      schoolId: school.id,
+      insurerId: school.insurance_company_id
+    };
+  }
+
+  const token = bearerToken(req);
+  const { data: userData, error: userError } = token ? await client.auth.getUser(token) : { data: null, error: null };
+  if (!token || userError || !userData?.user) {
+    throw new InferenceError('unauthorized', 'Sign in as an insurer or use a valid admin access link');
+  }
+
+  if (typeof body.schoolId !== 'string') {
+    throw new InferenceError('bad_request', 'schoolId is required when calling as an insurer');
+  }
+  const { data: school, error } = await client
+    .from('schools')
+    .select('id, insurance_company_id')
+    .eq('id', body.schoolId)
+    .maybeSingle();
+  if (error) {
+    console.error('Could not load school:', error);
+  }
+  if (!school || school.insurance_company_id !== userData.user.id) {
+    throw new InferenceError('unauthorized', 'This school does not belong to the signed-in insurer');
+  }
+  return {
+    kind: 'insurer',
+    callerId: `user:${userData.user.id}`,
+    schoolId: school.id,
+    insurerId: school.insurance_company_id
+  };
+};
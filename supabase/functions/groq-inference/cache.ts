@@ -0,0 +1,158 @@
+// Per-school cache of validated model output, keyed by image fingerprints.
+// An identical or near-identical re-submission (a retaken photo of the same
+// object) reuses the earlier answer instead of calling the model again.
+// Each school sets its TTL in schools.inference_cache_ttl_minutes (0 = off).
+//
+//   INFERENCE_CACHE_MAX_DISTANCE  differing dHash bits (of 64) still counted as the same photo (default: 6)
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { dataUrlToBytes, differenceHash, hammingDistance, sha256Hex } from './hash.ts';
+import type { InferenceResult, ScanMode } from './schema.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+const DEFAULT_MAX_DISTANCE = 6;
+
+// Near-duplicates are compared in memory against this many recent entries
+const NEAR_MATCH_CANDIDATES = 200;
+
+export interface ImageFingerprint {
+  // SHA-256 over all images, in order
+  sha256: string;
+  // One dHash per image; null where the image could not be decoded
+  perceptualHashes: (string | null)[];
+}
+
+export interface CachedInference {
+  result: InferenceResult;
+  inferenceRunId: string | null;
+  createdAt: string;
+}
+
+interface CacheKey {
+  schoolId: string;
+  mode: ScanMode;
+  promptVersion: string;
+}
+
+const maxDistance = (): number => {
+  const value = parseInt(Deno.env.get('INFERENCE_CACHE_MAX_DISTANCE') ?? '', 10);
+  return value >= 0 && value <= 64 ? value : DEFAULT_MAX_DISTANCE;
+};
+
+/**
+ * The school's cache TTL in minutes; 0 when caching is off or the setting
+ * cannot be read.
+ */
+export const fetchCacheTtlMinutes = async (client: SupabaseClient, schoolId: string): Promise<number> => {
+  const { data: school, error } = await client
+    .from('schools')
+    .select('inference_cache_ttl_minutes')
+    .eq('id', schoolId)
+    .single();
+  if (error || !school) {
+    console.error('Could not load cache TTL:', error);
+    return 0;
+  }
+  return Math.max(0, school.inference_cache_ttl_minutes ?? 0);
+};
+
+export const fingerprintImages = async (imageDataUrls: string[]): Promise<ImageFingerprint> => {
+  const images = imageDataUrls.map(dataUrlToBytes);
+  const imageHashes = await Promise.all(images.map(bytes => sha256Hex(bytes)));
+  return {
+    sha256: await sha256Hex(imageHashes.join(':')),
+    perceptualHashes: images.map(differenceHash)
+  };
+};
+
+// Every image must be within the distance of its counterpart
+const isNearMatch = (a: (string | null)[], b: (string | null)[], distance: number): boolean =>
+  a.length === b.length && a.every((hash, i) => hash !== null && b[i] !== null && hammingDistance(hash, b[i]!) <= distance);
+
+/**
+ * Returns the newest unexpired entry for these images: an exact hash match
+ * first, then the closest perceptual match.
+ */
+export const findCachedInference = async (client: SupabaseClient, key: CacheKey, fingerprint: ImageFingerprint): Promise<CachedInference | null> => {
+  const now = new Date().toISOString();
+  const { data: exact, error: exactError } = await client
+    .from('inference_cache')
+    .select('result, inference_run_id, created_at')
+    .eq('school_id', key.schoolId)
+    .eq('scan_mode', key.mode)
+    .eq('prompt_version', key.promptVersion)
+    .eq('image_sha256', fingerprint.sha256)
+    .gt('expires_at', now)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (exactError) {
+    console.error('Could not read inference cache:', exactError);
+    return null;
+  }
+  if (exact) {
+    console.log('Inference cache hit (exact)');
+    return { result: exact.result, inferenceRunId: exact.inference_run_id, createdAt: exact.created_at };
+  }
+
+  if (fingerprint.perceptualHashes.some(hash => hash === null)) return null;
+  const { data: candidates, error } = await client
+    .from('inference_cache')
+    .select('result, inference_run_id, created_at, perceptual_hashes')
+    .eq('school_id', key.schoolId)
+    .eq('scan_mode', key.mode)
+    .eq('prompt_version', key.promptVersion)
+    .gt('expires_at', now)
+    .order('created_at', { ascending: false })
+    .limit(NEAR_MATCH_CANDIDATES);
+  if (error) {
+    console.error('Could not read inference cache:', error);
+    return null;
+  }
+  const distance = maxDistance();
+  const match = (candidates ?? []).find(c => isNearMatch(fingerprint.perceptualHashes, c.perceptual_hashes ?? [], distance));
+  if (!match) return null;
+  console.log('Inference cache hit (perceptual)');
+  return { result: match.result, inferenceRunId: match.inference_run_id, createdAt: match.created_at };
+};
+
+/**
+ * Caches a validated result for the school's TTL (see fetchCacheTtlMinutes),
+ * and clears the school's expired entries while at it. Does nothing when the
+ * school has caching off.
+ */
+export const storeCachedInference = async (
+  client: SupabaseClient,
+  key: CacheKey,
+  fingerprint: ImageFingerprint,
+  result: InferenceResult,
+  inferenceRunId: string | null,
+  ttlMinutes: number
+): Promise<void> => {
+  if (ttlMinutes <= 0) return;
+
+  const now = Date.now();
+  await client
+    .from('inference_cache')
+    .delete()
+    .eq('school_id', key.schoolId)
+    .lt('expires_at', new Date(now).toISOString());
+
+  const { error } = await client
+    .from('inference_cache')
+    .insert({
+      school_id: key.schoolId,
+      scan_mode: key.mode,
+      prompt_version: key.promptVersion,
+      image_sha256: fingerprint.sha256,
+      perceptual_hashes: fingerprint.perceptualHashes,
+      result,
+      inference_run_id: inferenceRunId,
+      expires_at: new Date(now + ttlMinutes * 60_000).toISOString()
+    });
+  if (error) {
+    console.error('Could not write inference cache:', error);
+  }
+};
@@ -0,0 +1,142 @@
+// Insurer price catalog matching. Detected item names are fuzzy-matched to
+// catalog entries; a confident match replaces the model's price guess so the
+// same asset gets the same value in every scan.
+//
+//   CATALOG_MATCH_THRESHOLD  minimum similarity (0-1) to use a catalog price (default: 0.8)
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { InferenceResult, LabelFields, PricingFields } from './schema.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  category: string;
+  unit_price: number;
+  manufacturer: string | null;
+  model_number: string | null;
+  aliases: string[] | null;
+}
+
+interface CatalogMatch {
+  entry: CatalogEntry;
+  score: number;
+}
+
+const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+export const getMatchThreshold = (): number => {
+  const value = parseFloat(Deno.env.get('CATALOG_MATCH_THRESHOLD') ?? '');
+  return value > 0 && value <= 1 ? value : DEFAULT_MATCH_THRESHOLD;
+};
+
+/**
+ * Loads an insurer's catalog.
+ */
+export const fetchCatalog = async (client: SupabaseClient, insurerId: string): Promise<CatalogEntry[]> => {
+  const { data, error } = await client
+    .from('price_catalog')
+    .select('id, name, category, unit_price, manufacturer, model_number, aliases')
+    .eq('insurance_company_id', insurerId);
+  if (error) {
+    console.error('Could not load price catalog:', error);
+    return [];
+  }
+  return data as CatalogEntry[];
+};
+
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Similarity of two names from 0 to 1: the better of token overlap (robust to
+ * word order) and character bigram overlap (robust to typos and plurals).
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const tokensA = new Set(na.split(' '));
+  const tokensB = new Set(nb.split(' '));
+  const sharedTokens = [...tokensA].filter(t => tokensB.has(t)).length;
+  const jaccard = sharedTokens / new Set([...tokensA, ...tokensB]).size;
+
+  const gramsA = bigrams(na);
+  const gramsB = bigrams(nb);
+  const remaining = [...gramsB];
+  let sharedGrams = 0;
+  for (const gram of gramsA) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      sharedGrams++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice = gramsA.length + gramsB.length > 0 ? (2 * sharedGrams) / (gramsA.length + gramsB.length) : 0;
+
+  return Math.max(jaccard, dice);
+};
+
+/**
+ * Best catalog entry for an item. A model number printed on the item and
+ * equal to the entry's is treated as an exact match.
+ */
+export const findCatalogMatch = (entries: CatalogEntry[], item: LabelFields & { name: string }): CatalogMatch | null => {
+  let best: CatalogMatch | null = null;
+  for (const entry of entries) {
+    let score = Math.max(nameSimilarity(item.name, entry.name), ...(entry.aliases ?? []).map(alias => nameSimilarity(item.name, alias)));
+    if (item.modelNumber && entry.model_number && normalize(item.modelNumber) === normalize(entry.model_number)) {
+      score = 1;
+    }
+    if (!best || score > best.score) best = { entry, score };
+  }
+  return best;
+};
+
+const priceFromCatalog = (entries: CatalogEntry[], item: LabelFields & { name: string; estimatedValue: number }, threshold: number): PricingFields & { estimatedValue: number } => {
+  const match = findCatalogMatch(entries, item);
+  if (!match || match.score < threshold) {
+    return { estimatedValue: item.estimatedValue, valueSource: 'model' };
+  }
+  console.log(`Catalog match for "${item.name}": "${match.entry.name}" (score ${match.score.toFixed(2)})`);
+  return {
+    estimatedValue: match.entry.unit_price,
+    valueSource: 'catalog',
+    catalogEntryId: match.entry.id,
+    catalogEntryName: match.entry.name,
+    catalogMatchScore: Math.round(match.score * 100) / 100,
+    modelEstimatedValue: item.estimatedValue
+  };
+};
+
+/**
+ * Replaces model prices with catalog prices wherever the match is confident,
+ * and records on every item where its value came from.
+ */
+export const applyCatalogPrices = (result: InferenceResult, entries: CatalogEntry[], threshold: number): InferenceResult => ({
+  ...result,
+  ...priceFromCatalog(entries, { ...result, name: result.itemName }, threshold),
+  detectedObjects: result.detectedObjects.map(object => ({
+    ...object,
+    ...priceFromCatalog(entries, object, threshold)
+  })),
+  // Candidates describe the same item, so the label read off it applies to each
+  ensemble: result.ensemble && {
+    ...result.ensemble,
+    candidates: result.ensemble.candidates.map(candidate => ({
+      ...candidate,
+      ...priceFromCatalog(entries, { ...result, name: candidate.itemName, estimatedValue: candidate.estimatedValue }, threshold)
+    }))
+  }
+});
@@ -0,0 +1,28 @@
+// Service-role Supabase client for the function's own reads and writes.
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set automatically on
+// deployed functions and by `supabase functions serve`. Every request needs
+// them, the mock provider included: callers are authenticated and usage is
+// limited and audited against the database.
+
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Returns the shared service client, or null when the database credentials
+ * are not set; requests then fail with `config_error`.
+ */
+export const getServiceClient = (): SupabaseClient | null => {
+  if (client) return client;
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceRoleKey) {
+    console.warn('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set; requests will be refused');
+    return null;
+  }
+  client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  return client;
+};
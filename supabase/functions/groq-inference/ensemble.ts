@@ -0,0 +1,70 @@
+// Ensemble valuation. On request, the image is also sent to a second model
+// and the two answers for the main item are compared; when they disagree the
+// result carries both candidates for the surveyor to choose from.
+//
+//   ENSEMBLE_PROVIDER         second provider, configured like VISION_PROVIDER with ENSEMBLE_MODEL,
+//                             ENSEMBLE_BASE_URL, ENSEMBLE_API_KEY and ENSEMBLE_MOCK_FIXTURE
+//                             (unset: the primary provider with the adjuster prompt variant)
+//   ENSEMBLE_VALUE_TOLERANCE  relative value difference still counted as agreement (default: 0.25)
+//   ENSEMBLE_NAME_SIMILARITY  minimum name similarity (0-1) still counted as agreement (default: 0.5)
+
+import { createProviderFromEnv, type VisionProvider } from './providers.ts';
+import type { PromptVariant } from './prompt.ts';
+import { nameSimilarity } from './catalog.ts';
+import type { EnsembleCandidate, InferenceResult } from './schema.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+export interface SecondOpinion {
+  provider: VisionProvider;
+  variant: PromptVariant;
+}
+
+const readFraction = (name: string, fallback: number): number => {
+  const value = parseFloat(Deno.env.get(name) ?? '');
+  return value >= 0 && value <= 1 ? value : fallback;
+};
+
+/**
+ * The second model: ENSEMBLE_PROVIDER when configured, otherwise the primary
+ * provider asked again with a different prompt.
+ */
+export const secondOpinionFromEnv = (primary: VisionProvider): SecondOpinion =>
+  Deno.env.get('ENSEMBLE_PROVIDER')
+    ? { provider: createProviderFromEnv('ENSEMBLE'), variant: 'standard' }
+    : { provider: primary, variant: 'adjuster' };
+
+export const toCandidate = (result: InferenceResult, provider: string, model: string, promptVariant: PromptVariant, inferenceRunId?: string): EnsembleCandidate => ({
+  provider,
+  model,
+  promptVariant,
+  itemName: result.itemName,
+  estimatedValue: result.estimatedValue,
+  confidence: result.confidence,
+  count: result.count,
+  category: result.category,
+  inferenceRunId
+});
+
+/**
+ * Keeps the primary answer and attaches the ensemble outcome. Values disagree
+ * when they differ by more than the tolerance relative to the larger one.
+ */
+export const reconcile = (primary: InferenceResult, first: EnsembleCandidate, second: EnsembleCandidate): InferenceResult => {
+  const reasons: ('name' | 'value')[] = [];
+  if (nameSimilarity(first.itemName, second.itemName) < readFraction('ENSEMBLE_NAME_SIMILARITY', 0.5)) {
+    reasons.push('name');
+  }
+  const larger = Math.max(first.estimatedValue, second.estimatedValue);
+  if (larger > 0 && Math.abs(first.estimatedValue - second.estimatedValue) / larger > readFraction('ENSEMBLE_VALUE_TOLERANCE', 0.25)) {
+    reasons.push('value');
+  }
+  if (reasons.length > 0) {
+    console.log(`Ensemble disagreement (${reasons.join(', ')}): "${first.itemName}" $${first.estimatedValue} vs "${second.itemName}" $${second.estimatedValue}`);
+  }
+  return {
+    ...primary,
+    ensemble: { disagreement: reasons.length > 0, reasons, candidates: [first, second] }
+  };
+};
@@ -0,0 +1,46 @@
+// Typed failures returned by the groq-inference function. The client reads
+// `code` from the JSON error body to decide what to tell the surveyor.
+
+export type InferenceErrorCode =
+  | 'bad_request'       // request body missing or malformed
+  | 'unauthorized'      // no valid insurer session or admin access key
+  | 'rate_limited'      // too many requests in the last minute
+  | 'quota_exceeded'    // daily quota used up
+  | 'budget_exceeded'   // the school's monthly spend reached its budget cap
+  | 'config_error'      // provider misconfigured on the server
+  | 'provider_error'    // the model endpoint failed or was unreachable
+  | 'parse_error'       // model output was not JSON, even after a repair attempt
+  | 'truncated_response' // model output hit the output token limit
+  | 'invalid_response'  // JSON parsed but did not match the result schema
+  | 'no_asset_found'    // model answered but identified no item
+  | 'internal_error';   // anything unexpected
+
+const STATUS_BY_CODE: Record<InferenceErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  budget_exceeded: 402,
+  config_error: 500,
+  provider_error: 502,
+  parse_error: 422,
+  truncated_response: 422,
+  invalid_response: 422,
+  no_asset_found: 422,
+  internal_error: 500
+};
+
+export class InferenceError extends Error {
+  code: InferenceErrorCode;
+  status: number;
+  // Sent as the Retry-After header on 429 responses
+  retryAfterSeconds?: number;
+
+  constructor(code: InferenceErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'InferenceError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
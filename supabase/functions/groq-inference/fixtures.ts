@@ -0,0 +1,50 @@
+// Canned model responses for the mock vision provider. Each response has the
+// same shape the system prompt asks the real model for in damage mode; the
+// validator ignores the damage fields in inventory mode.
+
+export interface MockFixture {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    name: 'classroom-projector',
+    response: {
+      mainItem: { name: 'Epson PowerLite Classroom Projector', category: 'av_equipment', estimatedValue: 650, confidence: 0.93, boundingBox: { x: 0.32, y: 0.18, width: 0.36, height: 0.3 }, damage: { type: 'water', severity: 0.6, description: 'Water stains around the lamp housing' }, manufacturer: 'Epson', modelNumber: 'EX7280', serialNumber: 'X4KN2300417', assetTag: 'SD-004512' },
+      otherObjects: [
+        { name: 'Projector Ceiling Mount', estimatedValue: 90, confidence: 0.82, boundingBox: { x: 0.44, y: 0, width: 0.12, height: 0.2 }, damage: { type: 'none', severity: 0 } },
+        { name: 'HDMI Wall Plate', estimatedValue: 25, confidence: 0.64, boundingBox: { x: 0.82, y: 0.55, width: 0.08, height: 0.1 }, damage: { type: 'water', severity: 0.3, description: 'Corrosion on connectors' } }
+      ]
+    }
+  },
+  {
+    name: 'student-desks',
+    response: {
+      mainItem: { name: 'Student Desk with Chair Combo', category: 'furniture', estimatedValue: 145, confidence: 0.88, count: 24, boundingBox: { x: 0.25, y: 0.4, width: 0.4, height: 0.5 }, damage: { type: 'water', severity: 0.8, description: 'Swollen particleboard desktop' } },
+      otherObjects: [
+        { name: 'Stackable Classroom Chair', estimatedValue: 45, confidence: 0.9, count: 6, boundingBox: { x: 0.68, y: 0.45, width: 0.2, height: 0.45 }, damage: { type: 'water', severity: 0.4, description: 'Rust on chair legs' } },
+        { name: 'Dry Erase Whiteboard 8ft', estimatedValue: 320, confidence: 0.71, boundingBox: { x: 0.1, y: 0.05, width: 0.8, height: 0.3 }, damage: { type: 'total_loss', severity: 1, description: 'Board delaminated from backing' } }
+      ]
+    }
+  },
+  {
+    name: 'chromebook-cart',
+    response: {
+      mainItem: { name: 'Chromebook Charging Cart (30 bay)', category: 'it_hardware', estimatedValue: 1400, confidence: 0.79, boundingBox: { x: 0.2, y: 0.25, width: 0.55, height: 0.7 }, damage: { type: 'fire', severity: 0.5, description: 'Scorched side panel' }, manufacturer: 'Bretford', modelNumber: 'CUBE-30', assetTag: 'SD-001877' },
+      otherObjects: [
+        { name: 'Lenovo 100e Chromebook', estimatedValue: 230, confidence: 0.87, count: 18, boundingBox: { x: 0.3, y: 0.1, width: 0.25, height: 0.18 }, damage: { type: 'smoke', severity: 0.7, description: 'Soot on keyboard and screen' }, manufacturer: 'Lenovo', modelNumber: '81MB', serialNumber: 'PF1Z8K2Q' }
+      ]
+    }
+  },
+  {
+    name: 'science-lab',
+    response: {
+      mainItem: { name: 'Compound Light Microscope', category: 'lab_equipment', estimatedValue: 380, confidence: 0.62, boundingBox: { x: 0.38, y: 0.2, width: 0.24, height: 0.6 }, damage: { type: 'structural', severity: 0.9, description: 'Arm snapped at the focus knob' }, manufacturer: 'AmScope', modelNumber: 'B120C' },
+      otherObjects: [
+        { name: 'Lab Safety Goggles', estimatedValue: 12, confidence: 0.58, count: 12, boundingBox: { x: 0.05, y: 0.7, width: 0.15, height: 0.12 }, damage: { type: 'none', severity: 0 } },
+        { name: 'Digital Lab Scale', estimatedValue: 120, confidence: 0.76, boundingBox: { x: 0.7, y: 0.6, width: 0.22, height: 0.2 }, damage: { type: 'structural', severity: 0.35, description: 'Cracked display' } }
+      ]
+    }
+  }
+];
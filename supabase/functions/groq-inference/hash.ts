@@ -0,0 +1,74 @@
+// Image fingerprints for the inference cache: an exact SHA-256 of the bytes
+// and a 64-bit difference hash (dHash) that survives re-encoding, small
+// exposure changes and slight camera movement.
+
+import jpeg from "npm:jpeg-js@0.4.4";
+
+// Decoding is the expensive part; refuse anything larger than a webcam frame needs
+const MAX_DECODE_MEGAPIXELS = 12;
+
+export const sha256Hex = async (value: string | Uint8Array): Promise<string> => {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * dHash of a JPEG as 16 hex characters: the image is reduced to 9x8 grey
+ * cells and each bit says whether a cell is brighter than its right-hand
+ * neighbour. Returns null for images that are not JPEG or fail to decode.
+ */
+export const differenceHash = (bytes: Uint8Array): string | null => {
+  let image: { width: number; height: number; data: Uint8Array };
+  try {
+    image = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_DECODE_MEGAPIXELS });
+  } catch (e) {
+    console.warn('Could not decode image for perceptual hash:', e.message);
+    return null;
+  }
+
+  // Average brightness of each of the 9x8 cells
+  const cells = new Float64Array(9 * 8);
+  const counts = new Uint32Array(9 * 8);
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.min(7, Math.floor(y * 8 / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const col = Math.min(8, Math.floor(x * 9 / image.width));
+      const i = (y * image.width + x) * 4;
+      const luma = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+      cells[row * 9 + col] += luma;
+      counts[row * 9 + col]++;
+    }
+  }
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = cells[row * 9 + col] / counts[row * 9 + col];
+      const right = cells[row * 9 + col + 1] / counts[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+/**
+ * Number of differing bits between two dHashes.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+};
@@ -1,30 +1,243 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { createProviderFromEnv, type VisionProvider } from "./providers.ts";
+import { InferenceError } from "./errors.ts";
+import { extractJson, validateModelOutput, type InferenceResult, type ScanMode } from "./schema.ts";
+import { buildSystemPrompt, buildUserPrompt, PROMPT_VERSION, type PromptOptions } from "./prompt.ts";
+import { ASSET_CATEGORIES, effectivePromptVersion, fetchPromptTemplates } from "./templates.ts";
+import { applyCatalogPrices, fetchCatalog, getMatchThreshold } from "./catalog.ts";
+import { fetchReviewThreshold, flagForReview } from "./review.ts";
+import { getServiceClient } from "./db.ts";
+import { authenticate, type Caller } from "./auth.ts";
+import { reserveRun } from "./limits.ts";
+import { fetchCacheTtlMinutes, findCachedInference, fingerprintImages, storeCachedInference } from "./cache.ts";
+import { addUsage, recordInferenceRun, type InferenceRunRecord } from "./audit.ts";
+import { createJob, fetchJob, runJob } from "./jobs.ts";
+import { reconcile, secondOpinionFromEnv, toCandidate } from "./ensemble.ts";
 
 // TypeScript declaration for Deno global
 declare const Deno: any;
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Vision models accept a handful of images per request; Groq's limit is 5
+const MAX_IMAGES = 4;
+
+/**
+ * CORS headers for the request's origin. ALLOWED_ORIGINS (comma-separated)
+ * restricts browsers to the app's own origins; unset allows any origin, which
+ * is safe only because every request is authenticated.
+ */
+const corsHeadersFor = (req: Request): Record<string, string> => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') ?? '').split(',').map((o: string) => o.trim()).filter(Boolean);
+  const origin = req.headers.get('Origin') ?? '';
+  return {
+    'Access-Control-Allow-Origin': allowedOrigins.length === 0 ? '*' : allowedOrigins.includes(origin) ? origin : allowedOrigins[0],
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    // Lets the client honour Retry-After on 429s
+    'Access-Control-Expose-Headers': 'retry-after',
+    'Vary': 'Origin',
+  };
+};
+
+/**
+ * Parses the model's content as JSON. If that fails, the model gets exactly one
+ * text-only re-prompt to repair its own output before we give up. The repair
+ * answer and its token usage are added to the audit run.
+ */
+const parseWithRepair = async (provider: VisionProvider, systemPrompt: string, content: string, run: InferenceRunRecord): Promise<unknown> => {
+  try {
+    return extractJson(content);
+  } catch (e) {
+    console.error("Failed to parse model response:", e);
+    console.error("Raw content:", content);
+  }
+
+  console.log('Sending JSON repair prompt to model');
+  const repaired = await provider.complete({
+    systemPrompt,
+    userPrompt: `Your previous answer was not valid JSON:\n\n${content}\n\nReply with only the corrected JSON object in the required structure, with no other text.`,
+    imageDataUrls: []
+  });
+  run.repairResponse = repaired.content;
+  run.usage = addUsage(run.usage, repaired.usage);
+  try {
+    return extractJson(repaired.content);
+  } catch (e) {
+    console.error("Repaired model response is still not valid JSON:", e);
+    console.error("Raw content:", repaired.content);
+    throw new InferenceError('parse_error', 'Model response could not be parsed as JSON');
+  }
+};
+
+/**
+ * Calls the model and validates its answer. The run is recorded in the audit
+ * trail here only on failure; successful runs are recorded by the caller once
+ * prices and review flags are applied.
+ */
+const runModel = async (provider: VisionProvider, serviceClient: SupabaseClient, run: InferenceRunRecord, imageDataUrls: string[], promptOptions: PromptOptions): Promise<InferenceResult> => {
+  const systemPrompt = buildSystemPrompt(promptOptions);
+  const startedAt = Date.now();
+  try {
+    const completion = await provider.complete({
+      systemPrompt,
+      userPrompt: buildUserPrompt(promptOptions),
+      imageDataUrls
+    });
+    run.model = completion.model;
+    run.rawResponse = completion.content;
+    run.usage = completion.usage;
+
+    // Parse and validate the JSON response from the model
+    const parsedContent = await parseWithRepair(provider, systemPrompt, completion.content, run);
+    run.latencyMs = Date.now() - startedAt;
+    return validateModelOutput(parsedContent, { mode: run.mode });
+  } catch (error) {
+    // Failed runs are audited too, so disputes can see what the model said
+    run.latencyMs = run.latencyMs || Date.now() - startedAt;
+    run.errorCode = error instanceof InferenceError ? error.code : 'internal_error';
+    await recordInferenceRun(serviceClient, run);
+    throw error;
+  }
+};
+
+interface AnalysisRequest {
+  imageDataUrls: string[];
+  mode: ScanMode;
+  category: string;
+  // Also ask a second model and compare the answers (see ensemble.ts)
+  ensemble: boolean;
+  // The client's retry counter, recorded in the audit trail
+  attempt: unknown;
+}
+
+/**
+ * Analyzes one item for an authenticated caller: cache lookup or a limited
+ * model call, then category template, catalog prices and review flags.
+ */
+const analyze = async (provider: VisionProvider, serviceClient: SupabaseClient, caller: Caller, { imageDataUrls, mode, category, ensemble, attempt }: AnalysisRequest): Promise<InferenceResult> => {
+  // Retaken photos of the same object reuse the school's cached answer
+  // The insurer's category instructions are part of the prompt, so their
+  // versions are part of the prompt version used for caching and auditing
+  const templates = await fetchPromptTemplates(serviceClient, caller.insurerId);
+  const promptVersion = effectivePromptVersion(PROMPT_VERSION, category, templates);
+  const promptOptions: PromptOptions = { mode, imageCount: imageDataUrls.length, category, templates };
+
+  // Ensemble results carry both candidates, so they are cached separately
+  const cacheKey = { schoolId: caller.schoolId, mode, promptVersion: ensemble ? `${promptVersion}+ensemble` : promptVersion };
+  // Hashing decodes every image, so it is skipped when the school has caching off
+  const cacheTtlMinutes = await fetchCacheTtlMinutes(serviceClient, caller.schoolId);
+  const fingerprint = cacheTtlMinutes > 0 ? await fingerprintImages(imageDataUrls) : null;
+  const cached = fingerprint ? await findCachedInference(serviceClient, cacheKey, fingerprint) : null;
+
+  let validated: InferenceResult;
+  let run: InferenceRunRecord | null = null;
+  if (cached) {
+    validated = cached.result;
+  } else {
+    run = {
+      schoolId: caller.schoolId,
+      insurerId: caller.insurerId,
+      callerId: caller.callerId,
+      provider: provider.name,
+      model: provider.model,
+      promptVersion,
+      mode,
+      imageCount: imageDataUrls.length,
+      latencyMs: 0,
+      retryCount: typeof attempt === 'number' && Number.isInteger(attempt) && attempt > 0 ? attempt : 0
+    };
+    // Cache hits cost nothing, so only model calls count against limits
+    run.id = await reserveRun(serviceClient, caller, run);
+    if (!ensemble) {
+      validated = await runModel(provider, serviceClient, run, imageDataUrls, promptOptions);
+    } else {
+      // Built inside the settled promise so a bad ENSEMBLE_* setting, or a
+      // refused reservation, only loses the second opinion
+      const secondOpinion = async () => {
+        const second = secondOpinionFromEnv(provider);
+        const secondRun: InferenceRunRecord = {
+          ...run!,
+          id: undefined,
+          provider: second.provider.name,
+          model: second.provider.model,
+          promptVersion: second.variant === 'standard' ? promptVersion : `${promptVersion}+${second.variant}`
+        };
+        // A second paid call, so it passes the limits on its own
+        secondRun.id = await reserveRun(serviceClient, caller, secondRun);
+        const result = await runModel(second.provider, serviceClient, secondRun, imageDataUrls, { ...promptOptions, variant: second.variant });
+        // Recorded as soon as it finishes, whatever becomes of the primary run
+        secondRun.result = result;
+        const secondRunId = await recordInferenceRun(serviceClient, secondRun);
+        return { second, secondRun, result, secondRunId };
+      };
+      const [first, other] = await Promise.allSettled([
+        runModel(provider, serviceClient, run, imageDataUrls, promptOptions),
+        secondOpinion()
+      ]);
+      if (first.status === 'rejected') throw first.reason;
+      validated = first.value;
+      if (other.status === 'fulfilled') {
+        const { second, secondRun, result, secondRunId } = other.value;
+        validated = reconcile(
+          validated,
+          toCandidate(validated, provider.name, run.model, 'standard'),
+          toCandidate(result, second.provider.name, secondRun.model, second.variant, secondRunId ?? undefined)
+        );
+      } else {
+        // The primary answer still stands on its own
+        console.warn('Second opinion failed; returning the primary result only:', other.reason);
+      }
+    }
+  }
+
+  const itemCategory = category !== 'auto' ? category : validated.category ?? 'general';
+  const template = templates.find(t => t.category === itemCategory)!;
+  validated = {
+    ...validated,
+    category: itemCategory,
+    promptTemplateId: template.id ?? undefined,
+    promptTemplateVersion: template.version
+  };
+
+  // Prefer the insurer's catalog prices over the model's guesses
+  const catalog = await fetchCatalog(serviceClient, caller.insurerId);
+  const priced = applyCatalogPrices(validated, catalog, getMatchThreshold());
+
+  // Items the model is unsure of are saved for an adjuster to check
+  const reviewed = flagForReview(priced, await fetchReviewThreshold(serviceClient, caller.insurerId));
+
+  let inferenceRunId = cached?.inferenceRunId ?? null;
+  if (run) {
+    run.result = reviewed;
+    inferenceRunId = await recordInferenceRun(serviceClient, run);
+    if (validated.ensemble) {
+      validated.ensemble.candidates[0].inferenceRunId = inferenceRunId ?? undefined;
+    }
+    if (fingerprint) {
+      await storeCachedInference(serviceClient, cacheKey, fingerprint, validated, inferenceRunId, cacheTtlMinutes);
+    }
+  }
+  return {
+    ...reviewed,
+    inferenceRunId: inferenceRunId ?? undefined,
+    cached: !!cached,
+    cachedAt: cached?.createdAt
+  };
 };
 
 Deno.serve(async (req: Request) => {
+  const corsHeaders = corsHeadersFor(req);
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    console.log('Groq inference function started');
+    console.log('Vision inference function started');
     
-    // Get the Groq API key from environment variables (server-side)
-    const groqApiKey = Deno.env.get('GROQ_API_KEY') || Deno.env.get('VITE_GROQ_API_KEY');
-    if (!groqApiKey) {
-      console.error('GROQ_API_KEY or VITE_GROQ_API_KEY environment variable is not set');
-      console.error('Available env vars:', Object.keys(Deno.env.toObject()));
-      throw new Error('GROQ_API_KEY or VITE_GROQ_API_KEY environment variable is not set');
-    }
-    console.log('Groq API key found:', groqApiKey.substring(0, 10) + '...');
+    // Pick the vision provider (groq, openai-compatible or mock) from env config
+    const provider = createProviderFromEnv();
+    console.log(`Using vision provider: ${provider.name} (${provider.model})`);
 
     // Parse the request body
     let requestBody;
@@ -32,108 +245,68 @@ Deno.serve(async (req: Request) => {
       requestBody = await req.json();
     } catch (e) {
       console.error('Failed to parse request body:', e);
-      throw new Error('Invalid JSON in request body');
+      throw new InferenceError('bad_request', 'Invalid JSON in request body');
     }
 
-    const { imageDataUrl } = requestBody;
-    if (!imageDataUrl) {
-      console.error('Missing imageDataUrl in request body');
-      throw new Error('Missing imageDataUrl in request body');
+    // Only insurers and scanners with a school's access key may spend model quota
+    const serviceClient = getServiceClient();
+    if (!serviceClient) {
+      throw new InferenceError('config_error', 'SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required to authenticate callers');
     }
-    console.log('Image data URL received, length:', imageDataUrl.length);
-
-    // Prepare the prompt for object detection and valuation
-    const systemPrompt = `You are an expert in identifying and valuing school assets. 
-    When shown an image, identify the main item and estimate its value based on current market prices. 
-    Also detect any other relevant items in the image. 
-    Format your response as a JSON object with the following structure:
-    {
-      "mainItem": {
-        "name": "item name",
-        "estimatedValue": numeric value in USD
-      },
-      "otherObjects": [
-        {
-          "name": "object name",
-          "estimatedValue": numeric value in USD,
-          "confidence": confidence score between 0 and 1
-        }
-      ]
-    }`;
-
-    // Make the request to Groq API with llama-4 model
-    console.log('Making request to Groq API with llama-4 model');
-    const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${groqApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "meta-llama/llama-4-scout-17b-16e-instruct",
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Please identify and value the main item in this image, along with any other relevant items you can detect."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: imageDataUrl
-                }
-              }
-            ]
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 500
-      })
-    });
 
-    console.log('Groq API response status:', response.status);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Groq API error response:', errorText);
-      let errorData;
-      try {
-        errorData = JSON.parse(errorText);
-      } catch {
-        errorData = { error: { message: errorText } };
-      }
-      throw new Error(`Groq API error (${response.status}): ${errorData.error?.message || response.statusText}`);
+    // A poll for an earlier job request
+    if (typeof requestBody.jobId === 'string') {
+      const caller = await authenticate(serviceClient, req, requestBody);
+      const job = await fetchJob(serviceClient, caller, requestBody.jobId);
+      return new Response(JSON.stringify(job), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
 
-    const data = await response.json();
-    console.log('Groq API response received successfully');
-    console.log('Response data:', JSON.stringify(data, null, 2));
-    
-    const content = data.choices[0].message.content;
-    
-    // Parse the JSON response from the model
-    let parsedContent;
-    try {
-      parsedContent = JSON.parse(content);
-    } catch (e) {
-      console.error("Failed to parse model response:", e);
-      console.error("Raw content:", content);
-      throw new Error("Invalid response format from model");
+    // imageDataUrls holds every angle of one item; a single imageDataUrl is still accepted
+    // attempt is the client's retry counter, recorded in the audit trail
+    // category is an asset category, or 'auto' to let the model classify the item
+    // ensemble asks a second model for a comparison
+    const { imageDataUrl, mode = 'inventory', category = 'auto', ensemble = false, attempt } = requestBody;
+    const imageDataUrls: unknown[] = requestBody.imageDataUrls ?? (imageDataUrl ? [imageDataUrl] : []);
+    if (!Array.isArray(imageDataUrls) || imageDataUrls.length === 0 || imageDataUrls.some(url => typeof url !== 'string' || !url.startsWith('data:image/'))) {
+      console.error('Missing imageDataUrls in request body');
+      throw new InferenceError('bad_request', 'Missing or invalid imageDataUrls in request body');
+    }
+    if (imageDataUrls.length > MAX_IMAGES) {
+      throw new InferenceError('bad_request', `At most ${MAX_IMAGES} images can be analyzed together`);
+    }
+    if (mode !== 'inventory' && mode !== 'damage') {
+      throw new InferenceError('bad_request', `Unknown scan mode "${mode}"`);
     }
+    if (category !== 'auto' && !ASSET_CATEGORIES.includes(category)) {
+      throw new InferenceError('bad_request', `Unknown asset category "${category}"`);
+    }
+    console.log(`${imageDataUrls.length} image(s) received, total length:`, imageDataUrls.join('').length, 'mode:', mode);
 
-    const result = {
-      itemName: parsedContent.mainItem.name,
-      estimatedValue: parsedContent.mainItem.estimatedValue,
-      detectedObjects: parsedContent.otherObjects || []
-    };
+    const caller = await authenticate(serviceClient, req, requestBody);
+    console.log(`Caller: ${caller.kind} ${caller.callerId} for school ${caller.schoolId}`);
+
+    const request: AnalysisRequest = { imageDataUrls: imageDataUrls as string[], mode, category, ensemble: ensemble === true, attempt };
+
+    // Job requests are answered at once; the client polls with the job id.
+    // idempotencyKey is shared by the client's retries of one submit
+    if (requestBody.async === true) {
+      const idempotencyKey = typeof requestBody.idempotencyKey === 'string' && requestBody.idempotencyKey ? requestBody.idempotencyKey : undefined;
+      const { job, created } = await createJob(serviceClient, caller, { mode, category, imageCount: imageDataUrls.length, idempotencyKey });
+      if (created) {
+        console.log(`Queued inference job ${job.jobId}`);
+        EdgeRuntime.waitUntil(runJob(serviceClient, job.jobId, () => analyze(provider, serviceClient, caller, request)));
+      } else {
+        console.log(`Repeated submit for inference job ${job.jobId}; not running it again`);
+      }
+      return new Response(JSON.stringify(job), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
+    const result = await analyze(provider, serviceClient, caller, request);
     console.log('Successfully processed request, result:', JSON.stringify(result, null, 2));
     return new Response(JSON.stringify(result), {
       headers: { 
@@ -145,16 +318,21 @@ Deno.serve(async (req: Request) => {
   } catch (error) {
     console.error('Error in groq-inference function:', error);
     console.error('Error stack:', error.stack);
+    const inferenceError = error instanceof InferenceError
+      ? error
+      : new InferenceError('internal_error', error.message || 'Internal server error');
     return new Response(
       JSON.stringify({ 
-        error: error.message || 'Internal server error',
+        error: inferenceError.message,
+        code: inferenceError.code,
         details: error.stack || 'No stack trace available'
       }), 
       { 
-        status: 500,
+        status: inferenceError.status,
         headers: { 
           ...corsHeaders,
-          'Content-Type': 'application/json' 
+          'Content-Type': 'application/json',
+          ...(inferenceError.retryAfterSeconds !== undefined && { 'Retry-After': String(inferenceError.retryAfterSeconds) })
         }
       }
     );
@@ -0,0 +1,160 @@
+// Asynchronous inference jobs (see the inference_jobs table). A job request
+// is answered with a job id straight away; the analysis then runs in the
+// background and its outcome is stored on the job for the client to poll.
+//
+//   INFERENCE_JOB_STALE_SECONDS  a job running longer than this was lost with its worker (default: 180)
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { Caller } from './auth.ts';
+import { InferenceError, type InferenceErrorCode } from './errors.ts';
+import type { InferenceResult, ScanMode } from './schema.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// What the client receives when it submits or polls a job
+export interface JobState {
+  jobId: string;
+  status: JobStatus;
+  result?: InferenceResult;
+  error?: { code: InferenceErrorCode; message: string; retryAfterSeconds?: number };
+}
+
+interface JobRow {
+  id: string;
+  school_id: string;
+  status: JobStatus;
+  result: InferenceResult | null;
+  error_code: InferenceErrorCode | null;
+  error_message: string | null;
+  retry_after_seconds: number | null;
+  created_at: string;
+}
+
+const JOB_COLUMNS = 'id, school_id, status, result, error_code, error_message, retry_after_seconds, created_at';
+
+const staleAfterMs = (): number => {
+  const value = parseInt(Deno.env.get('INFERENCE_JOB_STALE_SECONDS') ?? '', 10);
+  return (value > 0 ? value : 180) * 1000;
+};
+
+const toJobState = (row: JobRow): JobState => ({
+  jobId: row.id,
+  status: row.status,
+  result: row.result ?? undefined,
+  error: row.error_code
+    ? { code: row.error_code, message: row.error_message ?? 'Inference failed', retryAfterSeconds: row.retry_after_seconds ?? undefined }
+    : undefined
+});
+
+const findJobByKey = async (client: SupabaseClient, schoolId: string, idempotencyKey: string): Promise<JobRow | null> => {
+  const { data, error } = await client
+    .from('inference_jobs')
+    .select(JOB_COLUMNS)
+    .eq('school_id', schoolId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to look up inference job by idempotency key:', error);
+    throw new InferenceError('internal_error', 'Could not queue the analysis');
+  }
+  return data as JobRow | null;
+};
+
+/**
+ * Creates a queued job. A submit repeating an earlier idempotency key gets
+ * that job back with `created: false`, and must not run it again.
+ */
+export const createJob = async (
+  client: SupabaseClient,
+  caller: Caller,
+  request: { mode: ScanMode; category: string; imageCount: number; idempotencyKey?: string }
+): Promise<{ job: JobState; created: boolean }> => {
+  if (request.idempotencyKey) {
+    const existing = await findJobByKey(client, caller.schoolId, request.idempotencyKey);
+    if (existing) return { job: toJobState(existing), created: false };
+  }
+  const { data, error } = await client
+    .from('inference_jobs')
+    .insert({
+      school_id: caller.schoolId,
+      caller_id: caller.callerId,
+      scan_mode: request.mode,
+      category: request.category,
+      image_count: request.imageCount,
+      idempotency_key: request.idempotencyKey ?? null
+    })
+    .select(JOB_COLUMNS)
+    .single();
+  // A concurrent retry with the same key got there first
+  if (error?.code === '23505' && request.idempotencyKey) {
+    const existing = await findJobByKey(client, caller.schoolId, request.idempotencyKey);
+    if (existing) return { job: toJobState(existing), created: false };
+  }
+  if (error || !data) {
+    console.error('Failed to create inference job:', error);
+    throw new InferenceError('internal_error', 'Could not queue the analysis');
+  }
+  return { job: toJobState(data as JobRow), created: true };
+};
+
+/**
+ * Runs `work` for a queued job and stores its outcome. Never throws: failures
+ * are stored on the job for the client to pick up.
+ */
+export const runJob = async (client: SupabaseClient, jobId: string, work: () => Promise<InferenceResult>): Promise<void> => {
+  await updateJob(client, jobId, { status: 'running', started_at: new Date().toISOString() });
+  try {
+    const result = await work();
+    await updateJob(client, jobId, { status: 'succeeded', result, completed_at: new Date().toISOString() });
+    console.log(`Inference job ${jobId} succeeded`);
+  } catch (error) {
+    console.error(`Inference job ${jobId} failed:`, error);
+    const inferenceError = error instanceof InferenceError
+      ? error
+      : new InferenceError('internal_error', error.message || 'Internal server error');
+    await updateJob(client, jobId, {
+      status: 'failed',
+      error_code: inferenceError.code,
+      error_message: inferenceError.message,
+      retry_after_seconds: inferenceError.retryAfterSeconds ?? null,
+      completed_at: new Date().toISOString()
+    });
+  }
+};
+
+const updateJob = async (client: SupabaseClient, jobId: string, changes: Record<string, unknown>): Promise<void> => {
+  const { error } = await client.from('inference_jobs').update(changes).eq('id', jobId);
+  if (error) {
+    console.error(`Failed to update inference job ${jobId}:`, error);
+  }
+};
+
+/**
+ * The job's current state, or `bad_request` if it does not exist or belongs to
+ * another school. Jobs whose worker died are reported as failed.
+ */
+export const fetchJob = async (client: SupabaseClient, caller: Caller, jobId: string): Promise<JobState> => {
+  const { data, error } = await client
+    .from('inference_jobs')
+    .select(JOB_COLUMNS)
+    .eq('id', jobId)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load inference job:', error);
+    throw new InferenceError('internal_error', 'Could not load the analysis job');
+  }
+  const row = data as JobRow | null;
+  if (!row || row.school_id !== caller.schoolId) {
+    throw new InferenceError('bad_request', `Unknown inference job "${jobId}"`);
+  }
+
+  if ((row.status === 'queued' || row.status === 'running') && Date.now() - new Date(row.created_at).getTime() > staleAfterMs()) {
+    const lost = { status: 'failed' as const, error_code: 'internal_error' as const, error_message: 'The analysis was interrupted; please try again' };
+    await updateJob(client, row.id, { ...lost, completed_at: new Date().toISOString() });
+    return toJobState({ ...row, ...lost });
+  }
+  return toJobState(row);
+};
@@ -0,0 +1,78 @@
+// Rate limits and daily quotas, counted from the inference_runs audit table.
+// Limits apply per school (all callers together) and per caller (one admin
+// access key or one insurer account):
+//
+//   SCHOOL_RATE_LIMIT_PER_MINUTE  inferences per school per minute (default: 30)
+//   CALLER_RATE_LIMIT_PER_MINUTE  inferences per caller per minute (default: 12)
+//   SCHOOL_DAILY_QUOTA            inferences per school per UTC day (default: 1000)
+//   CALLER_DAILY_QUOTA            inferences per caller per UTC day (default: 500)
+//
+// A school's optional monthly_budget_usd caps its estimated model spend per
+// UTC calendar month (see pricing.ts).
+//
+// The check and the reservation happen together in the reserve_inference_run
+// database function, so parallel requests cannot all slip under a limit.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { Caller } from './auth.ts';
+import { InferenceError, type InferenceErrorCode } from './errors.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+const readLimit = (name: string, fallback: number): number => {
+  const value = parseInt(Deno.env.get(name) ?? '', 10);
+  return value > 0 ? value : fallback;
+};
+
+// What the run will be recorded as (see audit.ts)
+export interface RunReservation {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  mode: string;
+  imageCount: number;
+  retryCount: number;
+}
+
+interface ReservationRow {
+  run_id: string | null;
+  error_code: InferenceErrorCode | null;
+  error_message: string | null;
+  retry_after_seconds: number | null;
+}
+
+/**
+ * Reserves a pending inference run for the caller and returns its id. Throws
+ * `rate_limited` or `quota_exceeded` (both 429, with a Retry-After) when the
+ * caller or its school is over a limit, and `budget_exceeded` (402) once the
+ * school has spent its monthly budget. If the limits cannot be checked, no
+ * model call is made.
+ */
+export const reserveRun = async (client: SupabaseClient, caller: Caller, reservation: RunReservation): Promise<string> => {
+  const { data, error } = await client.rpc('reserve_inference_run', {
+    p_school_id: caller.schoolId,
+    p_insurer_id: caller.insurerId,
+    p_caller_id: caller.callerId,
+    p_provider: reservation.provider,
+    p_model: reservation.model,
+    p_prompt_version: reservation.promptVersion,
+    p_scan_mode: reservation.mode,
+    p_image_count: reservation.imageCount,
+    p_retry_count: reservation.retryCount,
+    p_school_rate_limit: readLimit('SCHOOL_RATE_LIMIT_PER_MINUTE', 30),
+    p_caller_rate_limit: readLimit('CALLER_RATE_LIMIT_PER_MINUTE', 12),
+    p_school_daily_quota: readLimit('SCHOOL_DAILY_QUOTA', 1000),
+    p_caller_daily_quota: readLimit('CALLER_DAILY_QUOTA', 500)
+  });
+  const row = (data as ReservationRow[] | null)?.[0];
+  if (error || !row) {
+    console.error('Could not check inference limits:', error);
+    throw new InferenceError('internal_error', 'Usage limits could not be checked; please try again');
+  }
+  if (row.error_code) {
+    console.log(`Inference refused for school ${caller.schoolId}, caller ${caller.callerId}: ${row.error_code}`);
+    throw new InferenceError(row.error_code, row.error_message ?? 'Usage limit reached', row.retry_after_seconds ?? undefined);
+  }
+  return row.run_id!;
+};
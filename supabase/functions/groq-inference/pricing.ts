@@ -0,0 +1,44 @@
+// Estimated cost of a model call from its token usage. Prices are USD per
+// million tokens; models not listed cost nothing unless overridden:
+//
+//   VISION_PRICE_INPUT_PER_MTOK   input (prompt) price override
+//   VISION_PRICE_OUTPUT_PER_MTOK  output (completion) price override
+
+import type { TokenUsage } from './providers.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+// Groq list prices
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'meta-llama/llama-4-scout-17b-16e-instruct': { inputPerMTok: 0.11, outputPerMTok: 0.34 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { inputPerMTok: 0.2, outputPerMTok: 0.6 },
+  'mock-fixtures': { inputPerMTok: 0, outputPerMTok: 0 }
+};
+
+const priceFor = (model: string): ModelPrice => {
+  const listed = MODEL_PRICES[model];
+  const input = parseFloat(Deno.env.get('VISION_PRICE_INPUT_PER_MTOK') ?? '');
+  const output = parseFloat(Deno.env.get('VISION_PRICE_OUTPUT_PER_MTOK') ?? '');
+  if (!listed && !(input >= 0 && output >= 0)) {
+    console.warn(`No price known for model ${model}; recording its cost as 0`);
+  }
+  return {
+    inputPerMTok: input >= 0 ? input : listed?.inputPerMTok ?? 0,
+    outputPerMTok: output >= 0 ? output : listed?.outputPerMTok ?? 0
+  };
+};
+
+/**
+ * Cost in USD, or null when the provider reported no usage.
+ */
+export const estimateCostUsd = (model: string, usage: TokenUsage | undefined): number | null => {
+  if (!usage) return null;
+  const price = priceFor(model);
+  return (usage.promptTokens * price.inputPerMTok + usage.completionTokens * price.outputPerMTok) / 1_000_000;
+};
@@ -0,0 +1,108 @@
+// Prompts sent to the vision provider. The JSON structure described here must
+// stay in sync with the validator in schema.ts.
+
+import type { ScanMode } from './schema.ts';
+import { ASSET_CATEGORIES, builtInTemplate, type PromptTemplate } from './templates.ts';
+
+// Recorded with every inference run. Bump it whenever the prompt wording or
+// the requested JSON structure changes.
+export const PROMPT_VERSION = 'v8';
+
+export interface PromptOptions {
+  mode: ScanMode;
+  imageCount: number;
+  // An asset category, or 'auto' to have the model classify the main item
+  category: string;
+  // Active template per category (see templates.ts)
+  templates: PromptTemplate[];
+  // 'adjuster' asks for an independent second opinion (see ensemble.ts)
+  variant?: PromptVariant;
+}
+
+export type PromptVariant = 'standard' | 'adjuster';
+
+const ADJUSTER_GUIDANCE = `
+    You are giving an independent second opinion for an insurance claims adjuster. Name the item
+    by its generic product type unless the brand and model are legible, and value it at the price
+    a school would pay today for a like-for-like replacement from an education supplier.`;
+
+const DAMAGE_GUIDANCE = `
+    This is a post-disaster damage assessment. For every item, also classify any visible damage
+    and rate its severity from 0 (undamaged) to 1 (destroyed). Use "total_loss" when the item
+    cannot be repaired. Keep estimatedValue as the item's pre-loss replacement value.`;
+
+// Fields every item carries, main item and other objects alike
+const itemFields = (options: PromptOptions): string[] => {
+  const fields = [
+    `"count": number of identical instances visible, at least 1`,
+    `"boundingBox": { "x": 0-1, "y": 0-1, "width": 0-1, "height": 0-1 }`,
+    `"manufacturer": "brand on the item or its label, or null"`,
+    `"modelNumber": "model number exactly as printed, or null"`,
+    `"serialNumber": "serial number exactly as printed, or null"`,
+    `"assetTag": "district or school asset tag number, or null"`
+  ];
+  if (options.mode === 'damage') {
+    fields.push(`"damage": { "type": "none" | "water" | "fire" | "smoke" | "wind" | "structural" | "total_loss", "severity": 0-1, "description": "short description of the visible damage" }`);
+  }
+  return fields;
+};
+
+const MULTI_IMAGE_GUIDANCE = `
+    You will be shown several photos of the same item from different angles, such as a front view
+    and a close-up of its model or serial plate. Combine what all photos show into one answer,
+    and give bounding boxes relative to the first photo.`;
+
+// The insurer's valuation instructions for the chosen category, or for every
+// category when the model has to classify the item itself
+const categoryGuidance = (options: PromptOptions): string => {
+  if (options.category !== 'auto') {
+    const template = options.templates.find(t => t.category === options.category) ?? builtInTemplate(options.category);
+    return `
+    The main item is in the "${options.category}" asset category. Follow these valuation instructions:
+    ${template.instructions}`;
+  }
+  const sections = options.templates.map(t => `    - ${t.category}: ${t.instructions}`).join('\n');
+  return `
+    Classify the main item into exactly one asset category and follow that category's valuation instructions:
+${sections}`;
+};
+
+export const buildSystemPrompt = (options: PromptOptions): string => {
+  const mainItemFields = options.category === 'auto'
+    ? [`"category": "one of ${ASSET_CATEGORIES.join(', ')}"`, ...itemFields(options)]
+    : itemFields(options);
+  const extraFields = mainItemFields.map(field => `,\n        ${field}`).join('');
+  const extraObjectFields = itemFields(options).map(field => `,\n          ${field}`).join('');
+
+  return `You are an expert in identifying and valuing school assets.
+    When shown an image, identify the main item and estimate its value based on current market prices.
+    Also detect any other relevant items in the image.
+    For every item, give its bounding box in the image as fractions of the image width and height (0 to 1),
+    where x and y are the top-left corner.
+    When several identical items are visible, such as a row of chairs, list them once with their count
+    instead of listing each one, and give the bounding box of one instance.
+    Read any visible text on labels, nameplates and stickers. Copy manufacturer, model number, serial number
+    and asset tag exactly as printed; use null for anything that is not clearly legible, and never guess. ${categoryGuidance(options)}${options.imageCount > 1 ? MULTI_IMAGE_GUIDANCE : ''}${options.mode === 'damage' ? DAMAGE_GUIDANCE : ''}${options.variant === 'adjuster' ? ADJUSTER_GUIDANCE : ''}
+    Format your response as a JSON object with the following structure:
+    {
+      "mainItem": {
+        "name": "item name",
+        "estimatedValue": numeric value in USD,
+        "confidence": confidence score between 0 and 1${extraFields}
+      },
+      "otherObjects": [
+        {
+          "name": "object name",
+          "estimatedValue": numeric value in USD,
+          "confidence": confidence score between 0 and 1${extraObjectFields}
+        }
+      ]
+    }`;
+};
+
+export const buildUserPrompt = (options: PromptOptions): string => {
+  const images = options.imageCount > 1 ? `these ${options.imageCount} images` : 'this image';
+  return options.mode === 'damage'
+    ? `Please identify, value and assess damage to the main item in ${images}, along with any other relevant items you can detect.`
+    : `Please identify and value the main item in ${images}, along with any other relevant items you can detect.`;
+};
@@ -0,0 +1,236 @@
+// Vision providers for the groq-inference function.
+//
+// The provider is picked from environment variables so the scanner can run
+// against Groq in production, a local OpenAI-compatible server (Ollama,
+// LM Studio, vLLM...) during development, or the offline fixture mock:
+//
+//   VISION_PROVIDER      groq | openai-compatible | mock   (default: groq)
+//   VISION_MODEL         model id override
+//   VISION_BASE_URL      base URL for openai-compatible, e.g. http://localhost:11434/v1
+//   VISION_API_KEY       optional bearer token for openai-compatible
+//   VISION_MOCK_FIXTURE  pin the mock to one fixture by name
+//   VISION_MAX_TOKENS    output token limit per call (default: 4096)
+//   GROQ_API_KEY         Groq key (VITE_GROQ_API_KEY is accepted as a fallback)
+//
+// A second provider for ensemble valuation (see ensemble.ts) is configured the
+// same way with ENSEMBLE_ in place of VISION_.
+
+import { InferenceError } from './errors.ts';
+import { MOCK_FIXTURES } from './fixtures.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+export type ProviderName = 'groq' | 'openai-compatible' | 'mock';
+
+export interface VisionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  // Several angles of the same item; empty for text-only follow-ups such as
+  // the JSON repair prompt
+  imageDataUrls: string[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface VisionCompletion {
+  // Raw message content returned by the model, expected to be a JSON string
+  content: string;
+  model: string;
+  // Absent when the provider does not report usage
+  usage?: TokenUsage;
+}
+
+export interface VisionProvider {
+  name: ProviderName;
+  model: string;
+  complete: (request: VisionRequest) => Promise<VisionCompletion>;
+}
+
+interface OpenAICompatibleOptions {
+  name: ProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  maxTokens?: number;
+}
+
+// Room for a main item and a dozen other objects, each with a bounding box,
+// label fields, damage, count and category
+const DEFAULT_MAX_TOKENS = 4096;
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const GROQ_DEFAULT_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
+
+/**
+ * Calls any endpoint that implements the OpenAI chat-completions API with
+ * image_url content parts. Groq is one of these; so are most local servers.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): VisionProvider => ({
+  name: options.name,
+  model: options.model,
+  complete: async (request: VisionRequest) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+      headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const userContent: Array<Record<string, unknown>> = [{ type: 'text', text: request.userPrompt }];
+    for (const url of request.imageDataUrls) {
+      userContent.push({ type: 'image_url', image_url: { url } });
+    }
+
+    console.log(`Making request to ${options.name} provider with model ${options.model}`);
+    let response: Response;
+    try {
+      response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'system',
+              content: request.systemPrompt
+            },
+            {
+              role: 'user',
+              content: userContent
+            }
+          ],
+          temperature: 0.2,
+          max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+        })
+      });
+    } catch (e) {
+      throw new InferenceError('provider_error', `${options.name} API unreachable: ${e.message}`);
+    }
+
+    console.log(`${options.name} API response status:`, response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${options.name} API error response:`, errorText);
+      let errorData;
+      try {
+        errorData = JSON.parse(errorText);
+      } catch {
+        errorData = { error: { message: errorText } };
+      }
+      const message = `${options.name} API error (${response.status}): ${errorData.error?.message || response.statusText}`;
+      // Our key is wrong or the image was refused: retrying cannot help
+      if (response.status === 401 || response.status === 403) {
+        throw new InferenceError('config_error', message);
+      }
+      if (response.status === 400 || response.status === 413) {
+        throw new InferenceError('bad_request', message);
+      }
+      // Overload and rate limits are transient; pass the provider's wait on to the client
+      const retryAfter = parseInt(response.headers.get('retry-after') ?? '', 10);
+      throw new InferenceError('provider_error', message, Number.isFinite(retryAfter) ? retryAfter : undefined);
+    }
+
+    const data = await response.json();
+    console.log(`${options.name} API response received successfully`);
+    console.log('Response data:', JSON.stringify(data, null, 2));
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new InferenceError('provider_error', `${options.name} API returned no message content`);
+    }
+    // Cut-off JSON cannot be repaired by re-prompting, which would only hit the limit again
+    if (data.choices[0].finish_reason === 'length') {
+      console.error('Model response hit the output token limit:', content);
+      throw new InferenceError('truncated_response', `Model response was cut off at the output token limit (${options.maxTokens ?? DEFAULT_MAX_TOKENS} tokens)`);
+    }
+
+    return {
+      content,
+      model: data.model || options.model,
+      usage: data.usage ? {
+        promptTokens: data.usage.prompt_tokens ?? 0,
+        completionTokens: data.usage.completion_tokens ?? 0,
+        totalTokens: data.usage.total_tokens ?? 0
+      } : undefined
+    };
+  }
+});
+
+export const createGroqProvider = (apiKey: string, model = GROQ_DEFAULT_MODEL, maxTokens?: number): VisionProvider =>
+  createOpenAICompatibleProvider({ name: 'groq', baseUrl: GROQ_BASE_URL, model, apiKey, maxTokens });
+
+// Small, stable string hash (FNV-1a) so the same image always maps to the same fixture
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider backed by the fixtures in fixtures.ts. The fixture is
+ * chosen from a hash of the images, so re-sending photos gives the same answer.
+ */
+export const createMockProvider = (fixtureName?: string): VisionProvider => ({
+  name: 'mock',
+  model: 'mock-fixtures',
+  complete: async (request: VisionRequest) => {
+    const pinned = fixtureName ? MOCK_FIXTURES.find(f => f.name === fixtureName) : undefined;
+    if (fixtureName && !pinned) {
+      throw new InferenceError('config_error', `Unknown mock fixture "${fixtureName}". Available: ${MOCK_FIXTURES.map(f => f.name).join(', ')}`);
+    }
+    const fixture = pinned || MOCK_FIXTURES[hashString(request.imageDataUrls.join('|')) % MOCK_FIXTURES.length];
+    console.log('Mock provider returning fixture:', fixture.name);
+    return {
+      content: JSON.stringify(fixture.response),
+      model: 'mock-fixtures'
+    };
+  }
+});
+
+/**
+ * Builds the provider selected by VISION_PROVIDER, or by `${prefix}_PROVIDER`
+ * for another configured provider.
+ */
+export const createProviderFromEnv = (prefix = 'VISION'): VisionProvider => {
+  const providerName = (Deno.env.get(`${prefix}_PROVIDER`) || 'groq') as ProviderName;
+  const model = Deno.env.get(`${prefix}_MODEL`) || undefined;
+  const maxTokensSetting = parseInt(Deno.env.get(`${prefix}_MAX_TOKENS`) ?? '', 10);
+  const maxTokens = maxTokensSetting > 0 ? maxTokensSetting : undefined;
+
+  switch (providerName) {
+    case 'groq': {
+      const groqApiKey = Deno.env.get('GROQ_API_KEY') || Deno.env.get('VITE_GROQ_API_KEY');
+      if (!groqApiKey) {
+        console.error('GROQ_API_KEY or VITE_GROQ_API_KEY environment variable is not set');
+        throw new InferenceError('config_error', 'GROQ_API_KEY or VITE_GROQ_API_KEY environment variable is not set. Set VISION_PROVIDER=mock to run without a key.');
+      }
+      console.log('Groq API key found:', groqApiKey.substring(0, 10) + '...');
+      return createGroqProvider(groqApiKey, model, maxTokens);
+    }
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get(`${prefix}_BASE_URL`);
+      if (!baseUrl || !model) {
+        throw new InferenceError('config_error', `${prefix}_BASE_URL and ${prefix}_MODEL must be set when ${prefix}_PROVIDER=openai-compatible`);
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl,
+        model,
+        apiKey: Deno.env.get(`${prefix}_API_KEY`) || undefined,
+        maxTokens
+      });
+    }
+    case 'mock':
+      return createMockProvider(Deno.env.get(`${prefix}_MOCK_FIXTURE`) || undefined);
+    default:
+      throw new InferenceError('config_error', `Unknown ${prefix}_PROVIDER "${providerName}". Expected groq, openai-compatible or mock.`);
+  }
+};
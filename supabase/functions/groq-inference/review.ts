@@ -0,0 +1,53 @@
+// Routing of low-confidence detections to human review. Each insurer sets its
+// own threshold in insurer_settings; the environment supplies the fallback.
+//
+//   REVIEW_CONFIDENCE_THRESHOLD  items below this confidence (0-1) need review (default: 0.7)
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { InferenceResult } from './schema.ts';
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+const defaultReviewThreshold = (): number => {
+  const value = parseFloat(Deno.env.get('REVIEW_CONFIDENCE_THRESHOLD') ?? '');
+  return value >= 0 && value <= 1 ? value : DEFAULT_REVIEW_THRESHOLD;
+};
+
+/**
+ * The insurer's review threshold, or the default when it has not set one.
+ */
+export const fetchReviewThreshold = async (client: SupabaseClient | null, insurerId: string | null): Promise<number> => {
+  if (!client || !insurerId) return defaultReviewThreshold();
+  const { data, error } = await client
+    .from('insurer_settings')
+    .select('review_confidence_threshold')
+    .eq('insurance_company_id', insurerId)
+    .maybeSingle();
+  if (error) {
+    console.error('Could not load insurer settings:', error);
+  }
+  return data?.review_confidence_threshold ?? defaultReviewThreshold();
+};
+
+/**
+ * Marks every item whose confidence is below the threshold as needing review.
+ */
+export const flagForReview = (result: InferenceResult, threshold: number): InferenceResult => ({
+  ...result,
+  needsReview: result.confidence < threshold,
+  reviewThreshold: threshold,
+  detectedObjects: result.detectedObjects.map(object => ({
+    ...object,
+    needsReview: object.confidence < threshold
+  })),
+  ensemble: result.ensemble && {
+    ...result.ensemble,
+    candidates: result.ensemble.candidates.map(candidate => ({
+      ...candidate,
+      needsReview: candidate.confidence < threshold
+    }))
+  }
+});
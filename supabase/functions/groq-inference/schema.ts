@@ -0,0 +1,330 @@
+// Strict schema for the model's JSON answer, with coercion of near-miss
+// values (prices as "$1,200", confidence as 85 or "85%") into the result
+// shape returned to the client.
+
+import { InferenceError } from './errors.ts';
+import { ASSET_CATEGORIES } from './templates.ts';
+
+// inventory: identify and value; damage: also classify post-disaster damage
+export type ScanMode = 'inventory' | 'damage';
+
+export type DamageType = 'none' | 'water' | 'fire' | 'smoke' | 'wind' | 'structural' | 'total_loss';
+
+export interface DamageAssessment {
+  type: DamageType;
+  // 0 = undamaged, 1 = destroyed
+  severity: number;
+  description?: string;
+}
+
+export interface ValidationOptions {
+  mode: ScanMode;
+}
+
+// Normalized to the image: x/y is the top-left corner, all values 0-1
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Text read off labels and plates; each is omitted when not legible
+export interface LabelFields {
+  manufacturer?: string;
+  modelNumber?: string;
+  serialNumber?: string;
+  assetTag?: string;
+}
+
+// Where an item's estimatedValue came from; filled in after validation
+export interface PricingFields {
+  valueSource?: 'catalog' | 'model';
+  catalogEntryId?: string;
+  catalogEntryName?: string;
+  catalogMatchScore?: number;
+  // The model's own estimate when a catalog price replaced it
+  modelEstimatedValue?: number;
+}
+
+export interface DetectedObject extends LabelFields, PricingFields {
+  name: string;
+  estimatedValue: number;
+  confidence: number;
+  // Identical instances the model counted in the photos
+  count?: number;
+  boundingBox?: BoundingBox;
+  damage?: DamageAssessment;
+  // Set once the insurer's review threshold has been applied
+  needsReview?: boolean;
+}
+
+// One model's answer for the main item in an ensemble valuation, priced and
+// flagged for review like the main item
+export interface EnsembleCandidate extends PricingFields {
+  provider: string;
+  model: string;
+  promptVariant: string;
+  itemName: string;
+  estimatedValue: number;
+  confidence: number;
+  count?: number;
+  category?: string;
+  inferenceRunId?: string;
+  needsReview?: boolean;
+}
+
+export interface EnsembleOutcome {
+  // The candidates' names or values differ beyond the configured tolerance
+  disagreement: boolean;
+  reasons: ('name' | 'value')[];
+  // Primary first
+  candidates: EnsembleCandidate[];
+}
+
+export interface InferenceResult extends LabelFields, PricingFields {
+  itemName: string;
+  estimatedValue: number;
+  confidence: number;
+  // Identical instances of the main item the model counted in the photos
+  count?: number;
+  // Asset category of the main item, chosen by the surveyor or the model
+  category?: string;
+  // Template whose instructions were used for that category (id absent for built-ins)
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  needsReview?: boolean;
+  reviewThreshold?: number;
+  // Row in inference_runs recording how this result was produced
+  inferenceRunId?: string;
+  // Reused from an earlier identical or near-identical submission
+  cached?: boolean;
+  cachedAt?: string;
+  // Present when a second model was consulted
+  ensemble?: EnsembleOutcome;
+  boundingBox?: BoundingBox;
+  damage?: DamageAssessment;
+  detectedObjects: DetectedObject[];
+}
+
+// Names models use when they could not find anything worth valuing
+const EMPTY_NAMES = ['', 'none', 'unknown', 'n/a', 'null', 'no item', 'nothing'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses model content as JSON, tolerating markdown code fences and prose
+ * around the object. Throws SyntaxError when no JSON object can be read.
+ */
+export const extractJson = (content: string): unknown => {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch (e) {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+};
+
+/**
+ * Accepts finite numbers and numeric strings such as "$1,200.50" or "450 USD".
+ */
+export const coerceNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const cleaned = value.replace(/usd|\$|,|\s/gi, '');
+    if (cleaned === '' || !/^-?\d*\.?\d+$/.test(cleaned)) return null;
+    return parseFloat(cleaned);
+  }
+  return null;
+};
+
+// Bare numbers up to this are 0-1 scores that overshot, not percentages
+const MAX_OVERSHOT_SCORE = 1.5;
+
+/**
+ * Accepts 0-1 scores, percentages (85 or "85%") and rejects anything else.
+ * Scores slightly above 1 (e.g. 1.2) are clamped to 1; only larger bare
+ * numbers are read as percentages.
+ */
+export const coerceConfidence = (value: unknown): number | null => {
+  const isPercentString = typeof value === 'string' && value.trim().endsWith('%');
+  let n = coerceNumber(typeof value === 'string' ? value.replace('%', '') : value);
+  if (n === null) return null;
+  if (isPercentString || (n > MAX_OVERSHOT_SCORE && n <= 100)) n = n / 100;
+  else if (n > 1 && n <= MAX_OVERSHOT_SCORE) n = 1;
+  return n >= 0 && n <= 1 ? n : null;
+};
+
+const readName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return EMPTY_NAMES.includes(name.toLowerCase()) ? null : name;
+};
+
+/**
+ * Reads an optional bounding box. Boxes that run past the image edge are
+ * clipped; boxes that are not normalized (e.g. pixel coordinates) are dropped.
+ */
+export const readBoundingBox = (value: unknown): BoundingBox | undefined => {
+  if (!isRecord(value)) return undefined;
+  const x = coerceNumber(value.x);
+  const y = coerceNumber(value.y);
+  const width = coerceNumber(value.width ?? value.w);
+  const height = coerceNumber(value.height ?? value.h);
+  if (x === null || y === null || width === null || height === null) return undefined;
+  if ([x, y, width, height].some(n => n < 0 || n > 1) || width === 0 || height === 0) return undefined;
+  return {
+    x,
+    y,
+    width: Math.min(width, 1 - x),
+    height: Math.min(height, 1 - y)
+  };
+};
+
+const DAMAGE_TYPES: DamageType[] = ['none', 'water', 'fire', 'smoke', 'wind', 'structural', 'total_loss'];
+
+// Words models use instead of the listed damage types. A Map, so model text
+// such as "constructor" cannot match an object built-in.
+const DAMAGE_SYNONYMS = new Map<string, DamageType>([
+  ['flood', 'water'],
+  ['moisture', 'water'],
+  ['burn', 'fire'],
+  ['soot', 'smoke'],
+  ['storm', 'wind'],
+  ['hurricane', 'wind'],
+  ['tornado', 'wind'],
+  ['impact', 'structural'],
+  ['destroyed', 'total_loss'],
+  ['total loss', 'total_loss'],
+  ['undamaged', 'none']
+]);
+
+/**
+ * Reads a damage assessment. A total loss always has severity 1 and "none"
+ * always has severity 0, whatever the model said.
+ */
+export const readDamage = (value: unknown): DamageAssessment | undefined => {
+  if (!isRecord(value) || typeof value.type !== 'string') return undefined;
+  const rawType = value.type.trim().toLowerCase();
+  const type = DAMAGE_TYPES.find(t => t === rawType) ?? DAMAGE_SYNONYMS.get(rawType);
+  if (!type) return undefined;
+  const severity = type === 'total_loss' ? 1 : type === 'none' ? 0 : coerceConfidence(value.severity);
+  if (severity === null) return undefined;
+  const description = typeof value.description === 'string' && value.description.trim() ? value.description.trim() : undefined;
+  return { type, severity, description };
+};
+
+const readText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  return EMPTY_NAMES.includes(text.toLowerCase()) ? undefined : text;
+};
+
+export const readLabelFields = (obj: Record<string, unknown>): LabelFields => ({
+  manufacturer: readText(obj.manufacturer),
+  modelNumber: readText(obj.modelNumber ?? obj.model_number),
+  serialNumber: readText(obj.serialNumber ?? obj.serial_number),
+  assetTag: readText(obj.assetTag ?? obj.asset_tag)
+});
+
+// Counts beyond this are misreads rather than a roomful of furniture
+const MAX_COUNT = 500;
+
+/**
+ * Reads an instance count as a whole number from 1 to MAX_COUNT.
+ */
+export const readCount = (value: unknown): number | undefined => {
+  const n = coerceNumber(value);
+  if (n === null) return undefined;
+  const count = Math.round(n);
+  return count >= 1 && count <= MAX_COUNT ? count : undefined;
+};
+
+const readValue = (obj: Record<string, unknown>): number | null =>
+  coerceNumber(obj.estimatedValue ?? obj.estimated_value ?? obj.value);
+
+/**
+ * Validates parsed model output against the result schema. Invalid secondary
+ * objects are dropped; an invalid or missing main item fails the request.
+ * In damage mode every kept item must carry a valid damage assessment.
+ */
+export const validateModelOutput = (raw: unknown, options: ValidationOptions): InferenceResult => {
+  if (!isRecord(raw)) {
+    throw new InferenceError('invalid_response', 'Model response is not a JSON object');
+  }
+
+  const mainItem = raw.mainItem ?? raw.main_item;
+  if (mainItem === null || mainItem === undefined) {
+    throw new InferenceError('no_asset_found', 'Model did not identify a main item');
+  }
+  if (!isRecord(mainItem)) {
+    throw new InferenceError('invalid_response', 'mainItem must be an object');
+  }
+
+  const itemName = readName(mainItem.name);
+  if (itemName === null) {
+    throw new InferenceError('no_asset_found', 'Model did not identify a main item');
+  }
+
+  const estimatedValue = readValue(mainItem);
+  if (estimatedValue === null || estimatedValue < 0) {
+    throw new InferenceError('invalid_response', `mainItem.estimatedValue is not a non-negative number: ${JSON.stringify(mainItem.estimatedValue)}`);
+  }
+
+  // A missing confidence counts as 0 so the item is always reviewed
+  const confidence = coerceConfidence(mainItem.confidence);
+  if (confidence === null) {
+    console.warn('mainItem.confidence missing or invalid:', JSON.stringify(mainItem.confidence));
+  }
+
+  const damage = options.mode === 'damage' ? readDamage(mainItem.damage) : undefined;
+  if (options.mode === 'damage' && !damage) {
+    throw new InferenceError('invalid_response', `mainItem.damage is missing or invalid: ${JSON.stringify(mainItem.damage)}`);
+  }
+
+  const rawObjects = raw.otherObjects ?? raw.other_objects ?? [];
+  if (!Array.isArray(rawObjects)) {
+    throw new InferenceError('invalid_response', 'otherObjects must be an array');
+  }
+
+  const detectedObjects: DetectedObject[] = [];
+  for (const obj of rawObjects) {
+    if (!isRecord(obj)) continue;
+    const name = readName(obj.name);
+    const value = readValue(obj);
+    const confidence = coerceConfidence(obj.confidence);
+    const objectDamage = options.mode === 'damage' ? readDamage(obj.damage) : undefined;
+    if (name === null || value === null || value < 0 || confidence === null || (options.mode === 'damage' && !objectDamage)) {
+      console.warn('Dropping invalid detected object:', JSON.stringify(obj));
+      continue;
+    }
+    detectedObjects.push({
+      name,
+      estimatedValue: value,
+      confidence,
+      count: readCount(obj.count ?? obj.quantity),
+      boundingBox: readBoundingBox(obj.boundingBox),
+      damage: objectDamage,
+      ...readLabelFields(obj)
+    });
+  }
+
+  return {
+    itemName,
+    estimatedValue,
+    confidence: confidence ?? 0,
+    count: readCount(mainItem.count ?? mainItem.quantity),
+    // Only asked for when the model classifies the item; unknown values are dropped
+    category: typeof mainItem.category === 'string' && ASSET_CATEGORIES.includes(mainItem.category) ? mainItem.category : undefined,
+    boundingBox: readBoundingBox(mainItem.boundingBox),
+    damage,
+    ...readLabelFields(mainItem),
+    detectedObjects
+  };
+};
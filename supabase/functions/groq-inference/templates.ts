@@ -0,0 +1,65 @@
+// Per-category prompt templates. Insurers store versioned valuation
+// instructions for each asset category in prompt_templates; every save is a
+// new version and the highest version is active. Categories without a saved
+// template use the built-in instructions below (version 0).
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+// Must match ASSET_CATEGORIES in src/lib/depreciation.ts
+export const ASSET_CATEGORIES = ['general', 'it_hardware', 'av_equipment', 'furniture', 'lab_equipment', 'athletics', 'library_books'];
+
+export interface PromptTemplate {
+  // Null for built-in instructions
+  id: string | null;
+  category: string;
+  version: number;
+  instructions: string;
+}
+
+const BUILT_IN_INSTRUCTIONS: Record<string, string> = {
+  general: 'Value the item at the cost of a comparable new replacement.',
+  it_hardware: 'Identify the exact make and model where possible. Value at the current price of the closest model still sold, not the original purchase price.',
+  av_equipment: 'Include mounts, lamps and remotes only when they are visibly attached. Value projectors and displays by their current equivalent model.',
+  furniture: 'Value classroom furniture at education-supplier prices for a like-kind item, per piece.',
+  lab_equipment: 'Value scientific instruments at lab-supplier prices for an equivalent grade (student vs. research). Note calibration plates and serial numbers.',
+  athletics: 'Value sports equipment at team-supplier prices. Treat fixed installations such as hoops and scoreboards as one item each.',
+  library_books: 'Value books at the average replacement cost of a library-bound copy, not retail paperback prices. Count volumes where shelves are visible.'
+};
+
+export const builtInTemplate = (category: string): PromptTemplate => ({
+  id: null,
+  category,
+  version: 0,
+  instructions: BUILT_IN_INSTRUCTIONS[category] ?? BUILT_IN_INSTRUCTIONS.general
+});
+
+/**
+ * The active template for every category: the insurer's highest version,
+ * or the built-in instructions.
+ */
+export const fetchPromptTemplates = async (client: SupabaseClient, insurerId: string): Promise<PromptTemplate[]> => {
+  const { data, error } = await client
+    .from('prompt_templates')
+    .select('id, category, version, instructions')
+    .eq('insurance_company_id', insurerId)
+    .order('version', { ascending: false });
+  if (error) {
+    console.error('Could not load prompt templates:', error);
+  }
+  return ASSET_CATEGORIES.map(category =>
+    (data ?? []).find(t => t.category === category) ?? builtInTemplate(category)
+  );
+};
+
+/**
+ * Identifies the exact prompt in the audit trail and cache key, e.g.
+ * "v6/it_hardware@3" for one category or "v6/auto@<versions>" when the
+ * model picks the category.
+ */
+export const effectivePromptVersion = (baseVersion: string, category: string, templates: PromptTemplate[]): string => {
+  if (category !== 'auto') {
+    const template = templates.find(t => t.category === category) ?? builtInTemplate(category);
+    return `${baseVersion}/${category}@${template.version}`;
+  }
+  return `${baseVersion}/auto@${templates.map(t => t.version).join('.')}`;
+};
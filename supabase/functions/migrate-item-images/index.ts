@@ -0,0 +1,217 @@
+// One-off migration of item photos saved as base64 data URLs in
+// items.image_url and item_images.image_url into the item-images storage
+// bucket, with thumbnails. Each call moves one batch, in id order, and returns
+// a cursor; pass it back until `remaining` is 0:
+//
+//   curl -X POST "$SUPABASE_URL/functions/v1/migrate-item-images" \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -d '{"batchSize": 25, "cursor": <cursor from the previous call>}'
+//
+// Only the service role key is accepted. Rows that fail stay as they are, are
+// listed in `failed` and are skipped by later batches; run again without a
+// cursor to retry them.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import jpeg from "npm:jpeg-js@0.4.4";
+
+// TypeScript declaration for Deno global
+declare const Deno: any;
+
+const BUCKET = 'item-images';
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 70;
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_BATCH_SIZE = 100;
+
+type RgbaImage = { width: number; height: number; data: Uint8Array };
+
+// Last id processed per table
+type Cursor = { items?: string; itemImages?: string };
+
+// File extensions for the image types browsers put in data URLs
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const decodeDataUrl = (dataUrl: string): { contentType: string; bytes: Uint8Array } => {
+  const contentType = dataUrl.slice('data:'.length, dataUrl.search(/[;,]/));
+  if (!dataUrl.slice(0, dataUrl.indexOf(',')).endsWith(';base64')) {
+    throw new Error(`Unsupported data URL encoding for ${contentType}`);
+  }
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { contentType, bytes };
+};
+
+/**
+ * Box-filter downscale to at most THUMBNAIL_SIZE on the longest side,
+ * re-encoded as JPEG.
+ */
+const createThumbnail = (bytes: Uint8Array): Uint8Array => {
+  const image: RgbaImage = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y / scale);
+    const y1 = Math.max(y0 + 1, Math.min(image.height, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x / scale);
+      const x1 = Math.max(x0 + 1, Math.min(image.width, Math.floor((x + 1) / scale)));
+      const sums = [0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sums[0] += image.data[i];
+          sums[1] += image.data[i + 1];
+          sums[2] += image.data[i + 2];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = sums[0] / n;
+      data[o + 1] = sums[1] / n;
+      data[o + 2] = sums[2] / n;
+      data[o + 3] = 255;
+    }
+  }
+  return jpeg.encode({ width, height, data }, THUMBNAIL_QUALITY).data;
+};
+
+/**
+ * Uploads a data URL's bytes as they are, under the school's folder, with a
+ * JPEG thumbnail. Images that cannot be decoded as JPEG (e.g. PNG) are their
+ * own thumbnail.
+ */
+const storeImage = async (client: SupabaseClient, schoolId: string, dataUrl: string): Promise<{ imagePath: string; thumbnailPath: string }> => {
+  const { contentType, bytes } = decodeDataUrl(dataUrl);
+  const id = crypto.randomUUID();
+  const imagePath = `${schoolId}/${id}.${EXTENSIONS[contentType] ?? 'bin'}`;
+
+  const bucket = client.storage.from(BUCKET);
+  const { error: imageError } = await bucket.upload(imagePath, bytes, { contentType });
+  if (imageError) throw imageError;
+
+  if (contentType !== 'image/jpeg') return { imagePath, thumbnailPath: imagePath };
+  let thumbnail: Uint8Array;
+  try {
+    thumbnail = createThumbnail(bytes);
+  } catch (e) {
+    console.warn(`Could not create a thumbnail for ${imagePath}; using the full image:`, e);
+    return { imagePath, thumbnailPath: imagePath };
+  }
+  const thumbnailPath = `${schoolId}/${id}_thumb.jpg`;
+  const { error: thumbnailError } = await bucket.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' });
+  if (thumbnailError) throw thumbnailError;
+  return { imagePath, thumbnailPath };
+};
+
+// Rows still holding a data URL past the cursor
+const countRemaining = async (client: SupabaseClient, table: 'items' | 'item_images', after: string | undefined): Promise<number> => {
+  let query = client
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .like('image_url', 'data:%');
+  if (after) query = query.gt('id', after);
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+Deno.serve(async (req: Request) => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required' }), { status: 500 });
+  }
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: 'The service role key is required' }), { status: 401 });
+  }
+  const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+  let batchSize = DEFAULT_BATCH_SIZE;
+  const cursor: Cursor = {};
+  try {
+    const body = await req.json();
+    if (Number.isInteger(body?.batchSize) && body.batchSize > 0) batchSize = Math.min(body.batchSize, MAX_BATCH_SIZE);
+    if (typeof body?.cursor?.items === 'string') cursor.items = body.cursor.items;
+    if (typeof body?.cursor?.itemImages === 'string') cursor.itemImages = body.cursor.itemImages;
+  } catch {
+    // No body; start from the beginning with the default batch size
+  }
+
+  const migrated = { items: 0, itemImages: 0 };
+  const failed: { table: string; id: string; error: string }[] = [];
+
+  let itemsQuery = client
+    .from('items')
+    .select('id, school_id, image_url')
+    .like('image_url', 'data:%')
+    .order('id')
+    .limit(batchSize);
+  if (cursor.items) itemsQuery = itemsQuery.gt('id', cursor.items);
+  const { data: items, error: itemsError } = await itemsQuery;
+  if (itemsError) {
+    return new Response(JSON.stringify({ error: itemsError.message }), { status: 500 });
+  }
+  for (const item of items ?? []) {
+    cursor.items = item.id;
+    try {
+      const stored = await storeImage(client, item.school_id, item.image_url);
+      const { error } = await client
+        .from('items')
+        .update({ image_path: stored.imagePath, thumbnail_path: stored.thumbnailPath, image_url: null })
+        .eq('id', item.id);
+      if (error) throw error;
+      migrated.items++;
+    } catch (e) {
+      console.error(`Failed to migrate image of item ${item.id}:`, e);
+      failed.push({ table: 'items', id: item.id, error: e.message });
+    }
+  }
+
+  let anglesQuery = client
+    .from('item_images')
+    .select('id, image_url, items(school_id)')
+    .like('image_url', 'data:%')
+    .order('id')
+    .limit(batchSize);
+  if (cursor.itemImages) anglesQuery = anglesQuery.gt('id', cursor.itemImages);
+  const { data: angles, error: anglesError } = await anglesQuery;
+  if (anglesError) {
+    return new Response(JSON.stringify({ error: anglesError.message }), { status: 500 });
+  }
+  for (const angle of angles ?? []) {
+    cursor.itemImages = angle.id;
+    try {
+      const schoolId = (angle.items as unknown as { school_id: string }).school_id;
+      const stored = await storeImage(client, schoolId, angle.image_url);
+      const { error } = await client
+        .from('item_images')
+        .update({ image_path: stored.imagePath, thumbnail_path: stored.thumbnailPath, image_url: null })
+        .eq('id', angle.id);
+      if (error) throw error;
+      migrated.itemImages++;
+    } catch (e) {
+      console.error(`Failed to migrate item image ${angle.id}:`, e);
+      failed.push({ table: 'item_images', id: angle.id, error: e.message });
+    }
+  }
+
+  let remaining: number;
+  try {
+    remaining = (await countRemaining(client, 'items', cursor.items)) + (await countRemaining(client, 'item_images', cursor.itemImages));
+  } catch (e) {
+    return new Response(JSON.stringify({ error: e.message, migrated, failed, cursor }), { status: 500 });
+  }
+  console.log(`Migrated ${migrated.items} item photo(s) and ${migrated.itemImages} extra angle(s), ${failed.length} failed; ${remaining} left`);
+  return new Response(JSON.stringify({ migrated, failed, cursor, remaining }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+});
@@ -0,0 +1,42 @@
+-- Replacement cost vs actual cash value.
+--
+-- items.estimated_value keeps its meaning as the replacement cost new (RCV)
+-- of one unit. actual_cash_value is RCV after depreciation for the item's age
+-- and condition, computed from the insurer's schedule for the item category.
+
+alter table public.items
+  add column if not exists category text not null default 'general',
+  add column if not exists age_years numeric check (age_years >= 0),
+  add column if not exists condition text check (condition in ('new', 'good', 'fair', 'poor')),
+  add column if not exists actual_cash_value numeric check (actual_cash_value >= 0);
+
+-- Existing rows were never depreciated
+update public.items set actual_cash_value = estimated_value where actual_cash_value is null;
+
+create table if not exists public.depreciation_schedules (
+  id uuid primary key default gen_random_uuid(),
+  insurance_company_id uuid not null references auth.users (id) on delete cascade,
+  category text not null,
+  method text not null default 'straight_line' check (method in ('straight_line', 'declining_balance')),
+  useful_life_years numeric not null check (useful_life_years > 0),
+  -- Floor for the age factor, as a fraction of RCV
+  salvage_percent numeric not null default 0.1 check (salvage_percent between 0 and 1),
+  -- Multipliers applied on top of age depreciation, keyed by condition
+  condition_factors jsonb not null default '{"new": 1, "good": 0.9, "fair": 0.7, "poor": 0.45}',
+  created_at timestamptz not null default now(),
+  unique (insurance_company_id, category)
+);
+
+alter table public.depreciation_schedules enable row level security;
+
+create policy "Insurers manage their depreciation schedules"
+  on public.depreciation_schedules for all
+  to authenticated
+  using (insurance_company_id = auth.uid())
+  with check (insurance_company_id = auth.uid());
+
+-- The scanner runs without a session and needs the school's insurer schedules
+create policy "Anyone can read depreciation schedules"
+  on public.depreciation_schedules for select
+  to anon
+  using (true);
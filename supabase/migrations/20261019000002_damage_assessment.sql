@@ -0,0 +1,11 @@
+-- Damage assessment mode for post-disaster scans.
+--
+-- estimated_value / actual_cash_value stay the item's pre-loss value;
+-- estimated_loss is the per-unit loss from the damage found at scan time.
+
+alter table public.items
+  add column if not exists scan_mode text not null default 'inventory' check (scan_mode in ('inventory', 'damage')),
+  add column if not exists damage_type text check (damage_type in ('none', 'water', 'fire', 'smoke', 'wind', 'structural', 'total_loss')),
+  add column if not exists damage_severity numeric check (damage_severity between 0 and 1),
+  add column if not exists damage_description text,
+  add column if not exists estimated_loss numeric check (estimated_loss >= 0);
@@ -0,0 +1,32 @@
+-- Additional photos (angles) per item from multi-angle capture.
+-- items.image_url stays the primary photo (position 0); this table holds the rest.
+
+create table if not exists public.item_images (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.items (id) on delete cascade,
+  image_url text not null,
+  position integer not null check (position > 0),
+  created_at timestamptz not null default now(),
+  unique (item_id, position)
+);
+
+create index if not exists item_images_item_id_idx on public.item_images (item_id);
+
+alter table public.item_images enable row level security;
+
+-- The scanner saves photos without a session, like it saves items
+create policy "Scanner can add item images"
+  on public.item_images for insert
+  to anon, authenticated
+  with check (exists (select 1 from public.items where items.id = item_images.item_id));
+
+create policy "Insurers read images of their schools' items"
+  on public.item_images for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.items
+    join public.schools on schools.id = items.school_id
+    where items.id = item_images.item_id
+      and schools.insurance_company_id = auth.uid()
+  ));
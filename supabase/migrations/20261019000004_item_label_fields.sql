@@ -0,0 +1,9 @@
+-- Identifiers read off labels and plates, for adjusters and re-inventories.
+
+alter table public.items
+  add column if not exists manufacturer text,
+  add column if not exists model_number text,
+  add column if not exists serial_number text,
+  add column if not exists asset_tag text;
+
+create index if not exists items_school_asset_tag_idx on public.items (school_id, asset_tag) where asset_tag is not null;
@@ -0,0 +1,8 @@
+-- An asset tag identifies one item per school, so barcode re-inventories
+-- update the existing row instead of inserting a duplicate.
+
+drop index if exists public.items_school_asset_tag_idx;
+
+create unique index if not exists items_school_asset_tag_key
+  on public.items (school_id, asset_tag)
+  where asset_tag is not null;
@@ -0,0 +1,31 @@
+-- Insurer-maintained price catalog. The groq-inference function matches
+-- detected items against it and uses the catalog price on a confident match.
+
+create table if not exists public.price_catalog (
+  id uuid primary key default gen_random_uuid(),
+  insurance_company_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  category text not null default 'general',
+  unit_price numeric not null check (unit_price >= 0),
+  manufacturer text,
+  model_number text,
+  -- Other names the item goes by, also used for matching
+  aliases text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (insurance_company_id, name)
+);
+
+create index if not exists price_catalog_insurance_company_id_idx on public.price_catalog (insurance_company_id);
+
+alter table public.price_catalog enable row level security;
+
+create policy "Insurers manage their price catalog"
+  on public.price_catalog for all
+  to authenticated
+  using (insurance_company_id = auth.uid())
+  with check (insurance_company_id = auth.uid());
+
+-- Where each stored value came from: the catalog, the model, or a person
+alter table public.items
+  add column if not exists value_source text not null default 'model' check (value_source in ('catalog', 'model', 'manual')),
+  add column if not exists catalog_entry_id uuid references public.price_catalog (id) on delete set null;
@@ -0,0 +1,28 @@
+-- Low-confidence detections are saved with review_status = 'needs_review'
+-- and wait for an adjuster to accept, correct or reject them.
+
+create table if not exists public.insurer_settings (
+  insurance_company_id uuid primary key references auth.users (id) on delete cascade,
+  -- Items the model is less sure of than this go to the review queue
+  review_confidence_threshold numeric not null default 0.7
+    check (review_confidence_threshold >= 0 and review_confidence_threshold <= 1),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.insurer_settings enable row level security;
+
+create policy "Insurers manage their settings"
+  on public.insurer_settings for all
+  to authenticated
+  using (insurance_company_id = auth.uid())
+  with check (insurance_company_id = auth.uid());
+
+alter table public.items
+  add column if not exists confidence numeric check (confidence >= 0 and confidence <= 1),
+  add column if not exists review_status text not null default 'approved'
+    check (review_status in ('approved', 'needs_review', 'rejected')),
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists items_needs_review_idx
+  on public.items (school_id)
+  where review_status = 'needs_review';
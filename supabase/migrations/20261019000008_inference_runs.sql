@@ -0,0 +1,42 @@
+-- Audit trail of every vision inference, written by the groq-inference
+-- function with the service role. Saved items point at the run that valued
+-- them so a valuation can be traced back to the exact model output.
+
+create table if not exists public.inference_runs (
+  id uuid primary key default gen_random_uuid(),
+  school_id uuid references public.schools (id) on delete cascade,
+  provider text not null,
+  model text not null,
+  prompt_version text not null,
+  scan_mode text not null,
+  image_count integer not null,
+  -- Model content exactly as returned, plus the JSON repair answer if one was needed
+  raw_response text,
+  repair_response text,
+  result jsonb,
+  error_code text,
+  latency_ms integer not null,
+  prompt_tokens integer,
+  completion_tokens integer,
+  total_tokens integer,
+  -- Client-side retries before this attempt (0 for a first attempt)
+  retry_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inference_runs_school_id_idx on public.inference_runs (school_id, created_at desc);
+
+alter table public.inference_runs enable row level security;
+
+create policy "Insurers read inference runs of their schools"
+  on public.inference_runs for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.schools
+    where schools.id = inference_runs.school_id
+      and schools.insurance_company_id = auth.uid()
+  ));
+
+alter table public.items
+  add column if not exists inference_run_id uuid references public.inference_runs (id) on delete set null;
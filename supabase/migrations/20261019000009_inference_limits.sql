@@ -0,0 +1,10 @@
+-- Per-caller rate limits count recent rows in inference_runs, so each run
+-- records who made it: an insurer (user:<id>) or an access key (key:<hash>).
+
+alter table public.inference_runs
+  add column if not exists caller_id text;
+
+create index if not exists inference_runs_caller_id_idx on public.inference_runs (caller_id, created_at desc);
+
+-- The function looks schools up by access key on every scanner request
+create index if not exists schools_admin_access_key_idx on public.schools (admin_access_key);
@@ -0,0 +1,32 @@
+-- Cache of validated model output per school, keyed by image fingerprints.
+-- Only the groq-inference function (service role) reads and writes it.
+
+alter table public.schools
+  -- How long a result is reused for re-submitted photos; 0 turns caching off
+  add column if not exists inference_cache_ttl_minutes integer not null default 1440
+    check (inference_cache_ttl_minutes >= 0);
+
+create table if not exists public.inference_cache (
+  id uuid primary key default gen_random_uuid(),
+  school_id uuid not null references public.schools (id) on delete cascade,
+  scan_mode text not null,
+  prompt_version text not null,
+  -- SHA-256 over the per-image SHA-256s, in order
+  image_sha256 text not null,
+  -- 64-bit dHash per image as hex; null entries could not be decoded
+  perceptual_hashes text[] not null,
+  -- Validated model output, before catalog prices and review flags
+  result jsonb not null,
+  inference_run_id uuid references public.inference_runs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists inference_cache_lookup_idx
+  on public.inference_cache (school_id, scan_mode, prompt_version, expires_at desc);
+
+create index if not exists inference_cache_sha_idx
+  on public.inference_cache (school_id, image_sha256);
+
+-- No policies: clients never touch the cache directly
+alter table public.inference_cache enable row level security;
@@ -0,0 +1,30 @@
+-- Versioned per-category valuation instructions. Saving a template inserts a
+-- new version; the groq-inference function uses the highest version.
+
+create table if not exists public.prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  insurance_company_id uuid not null references auth.users (id) on delete cascade,
+  category text not null,
+  version integer not null check (version > 0),
+  instructions text not null check (length(trim(instructions)) > 0),
+  created_at timestamptz not null default now(),
+  unique (insurance_company_id, category, version)
+);
+
+alter table public.prompt_templates enable row level security;
+
+create policy "Insurers read their prompt templates"
+  on public.prompt_templates for select
+  to authenticated
+  using (insurance_company_id = auth.uid());
+
+-- Versions are immutable: insert only, no update or delete
+create policy "Insurers add prompt template versions"
+  on public.prompt_templates for insert
+  to authenticated
+  with check (insurance_company_id = auth.uid());
+
+alter table public.items
+  add column if not exists prompt_template_id uuid references public.prompt_templates (id) on delete set null,
+  -- 0 means the built-in instructions were used
+  add column if not exists prompt_template_version integer;
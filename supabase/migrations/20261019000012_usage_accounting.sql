@@ -0,0 +1,28 @@
+-- Token cost accounting. Each inference run carries its estimated cost and
+-- the insurer it is billed to; schools can have a hard monthly budget.
+
+alter table public.inference_runs
+  add column if not exists insurance_company_id uuid references auth.users (id) on delete set null,
+  add column if not exists estimated_cost_usd numeric(12, 6);
+
+create index if not exists inference_runs_insurance_company_id_idx on public.inference_runs (insurance_company_id, created_at desc);
+
+alter table public.schools
+  -- Null means no cap; once a month's spend reaches it, scanning stops until next month
+  add column if not exists monthly_budget_usd numeric(10, 2) check (monthly_budget_usd >= 0);
+
+-- Usage per school per UTC calendar month. security_invoker keeps the
+-- inference_runs RLS in force, so insurers only see their own schools.
+create or replace view public.monthly_inference_usage
+with (security_invoker = true) as
+select
+  school_id,
+  insurance_company_id,
+  (date_trunc('month', created_at at time zone 'utc'))::date as month,
+  count(*) as runs,
+  coalesce(sum(prompt_tokens), 0) as prompt_tokens,
+  coalesce(sum(completion_tokens), 0) as completion_tokens,
+  coalesce(sum(total_tokens), 0) as total_tokens,
+  coalesce(sum(estimated_cost_usd), 0) as estimated_cost_usd
+from public.inference_runs
+group by school_id, insurance_company_id, (date_trunc('month', created_at at time zone 'utc'))::date;
@@ -0,0 +1,37 @@
+-- Asynchronous inference jobs. The groq-inference function creates a job,
+-- answers with its id at once and finishes the analysis in the background;
+-- scanners poll the function for the outcome. Images are never stored here.
+
+create table if not exists public.inference_jobs (
+  id uuid primary key default gen_random_uuid(),
+  school_id uuid not null references public.schools (id) on delete cascade,
+  caller_id text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  scan_mode text not null,
+  category text not null,
+  image_count integer not null,
+  -- Set once the job succeeded; the same shape as a synchronous response
+  result jsonb,
+  -- Set once the job failed; an InferenceErrorCode
+  error_code text,
+  error_message text,
+  retry_after_seconds integer,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+create index if not exists inference_jobs_school_id_idx on public.inference_jobs (school_id, created_at desc);
+
+alter table public.inference_jobs enable row level security;
+
+-- Insurers can follow jobs for their schools; scanners go through the function
+create policy "Insurers read inference jobs of their schools"
+  on public.inference_jobs for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.schools
+    where schools.id = inference_jobs.school_id
+      and schools.insurance_company_id = auth.uid()
+  ));
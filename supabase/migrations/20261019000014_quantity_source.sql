@@ -0,0 +1,5 @@
+-- Who set each item's quantity: counted by the model from the photo, or
+-- entered by a person. Null for items saved before counts were recorded.
+
+alter table public.items
+  add column if not exists quantity_source text check (quantity_source in ('model', 'manual'));
@@ -0,0 +1,83 @@
+-- Where items are: buildings within a school and rooms within a building.
+-- The scanner stamps each saved item with the surveyor's current room.
+
+create table if not exists public.buildings (
+  id uuid primary key default gen_random_uuid(),
+  school_id uuid not null references public.schools (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  unique (school_id, name)
+);
+
+create table if not exists public.rooms (
+  id uuid primary key default gen_random_uuid(),
+  building_id uuid not null references public.buildings (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  unique (building_id, name)
+);
+
+create index if not exists rooms_building_id_idx on public.rooms (building_id);
+
+alter table public.items
+  add column if not exists room_id uuid references public.rooms (id) on delete set null;
+
+create index if not exists items_room_id_idx on public.items (room_id);
+
+alter table public.buildings enable row level security;
+alter table public.rooms enable row level security;
+
+create policy "Insurers manage buildings of their schools"
+  on public.buildings for all
+  to authenticated
+  using (exists (
+    select 1
+    from public.schools
+    where schools.id = buildings.school_id
+      and schools.insurance_company_id = auth.uid()
+  ))
+  with check (exists (
+    select 1
+    from public.schools
+    where schools.id = buildings.school_id
+      and schools.insurance_company_id = auth.uid()
+  ));
+
+create policy "Insurers manage rooms of their schools"
+  on public.rooms for all
+  to authenticated
+  using (exists (
+    select 1
+    from public.buildings
+    join public.schools on schools.id = buildings.school_id
+    where buildings.id = rooms.building_id
+      and schools.insurance_company_id = auth.uid()
+  ))
+  with check (exists (
+    select 1
+    from public.buildings
+    join public.schools on schools.id = buildings.school_id
+    where buildings.id = rooms.building_id
+      and schools.insurance_company_id = auth.uid()
+  ));
+
+-- The scanner runs without a session; surveyors add locations as they walk the campus
+create policy "Scanner can read buildings"
+  on public.buildings for select
+  to anon
+  using (true);
+
+create policy "Scanner can add buildings"
+  on public.buildings for insert
+  to anon
+  with check (exists (select 1 from public.schools where schools.id = buildings.school_id));
+
+create policy "Scanner can read rooms"
+  on public.rooms for select
+  to anon
+  using (true);
+
+create policy "Scanner can add rooms"
+  on public.rooms for insert
+  to anon
+  with check (exists (select 1 from public.buildings where buildings.id = rooms.building_id));
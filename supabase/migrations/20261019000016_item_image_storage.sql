@@ -0,0 +1,41 @@
+-- Item photos move from base64 data URLs in table rows to the private
+-- item-images storage bucket. Objects live under "<school id>/", which is what
+-- the policies below scope access by; clients view them through signed URLs.
+-- Rows saved before this keep their data URL in image_url until the
+-- migrate-item-images function moves them.
+
+insert into storage.buckets (id, name, public)
+values ('item-images', 'item-images', false)
+on conflict (id) do nothing;
+
+alter table public.items
+  add column if not exists image_path text,
+  add column if not exists thumbnail_path text;
+
+alter table public.item_images
+  add column if not exists image_path text,
+  add column if not exists thumbnail_path text,
+  alter column image_url drop not null;
+
+-- The scanner uploads without a session, like it saves items
+create policy "Scanner can upload item images"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (
+    bucket_id = 'item-images'
+    and exists (select 1 from public.schools where schools.id::text = (storage.foldername(name))[1])
+  );
+
+-- Needed to create signed URLs, so it limits those to the insurer's schools
+create policy "Insurers read item images of their schools"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'item-images'
+    and exists (
+      select 1
+      from public.schools
+      where schools.id::text = (storage.foldername(name))[1]
+        and schools.insurance_company_id = auth.uid()
+    )
+  );
@@ -0,0 +1,5 @@
+-- Free-text notes a surveyor or adjuster adds to an item after saving it,
+-- e.g. where it is stored or why its value was changed.
+
+alter table public.items
+  add column if not exists notes text;
@@ -0,0 +1,96 @@
+-- Append-only history of every insert, update and delete on items and schools,
+-- written by triggers so scanner saves, dashboard edits and the service role
+-- are all covered. Rows hold full snapshots before and after the change;
+-- legacy data-URL photos are left out to keep them small.
+
+create table if not exists public.change_history (
+  id bigint generated always as identity primary key,
+  table_name text not null check (table_name in ('items', 'schools')),
+  record_id uuid not null,
+  school_id uuid,
+  -- Copied at write time so history outlives a deleted school. Null for items
+  -- deleted along with their school, whose row is already gone by then.
+  insurance_company_id uuid,
+  operation text not null check (operation in ('insert', 'update', 'delete')),
+  old_row jsonb,
+  new_row jsonb,
+  -- The signed-in user, or null for the scanner and the service role
+  changed_by uuid,
+  actor text not null check (actor in ('insurer', 'scanner', 'system')),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists change_history_record_idx on public.change_history (table_name, record_id, changed_at desc);
+
+alter table public.change_history enable row level security;
+
+create policy "Insurers read the history of their schools"
+  on public.change_history for select
+  to authenticated
+  using (insurance_company_id = auth.uid());
+
+-- No insert, update or delete policies: only the triggers below write, and
+-- nothing rewrites history, not even the service role
+create or replace function public.prevent_change_history_edits()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'change_history is append-only';
+end;
+$$;
+
+create trigger change_history_append_only
+  before update or delete on public.change_history
+  for each row execute function public.prevent_change_history_edits();
+
+create or replace function public.record_change_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_data jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) - 'image_url' end;
+  new_data jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) - 'image_url' end;
+  row_data jsonb := coalesce(new_data, old_data);
+  school uuid;
+  insurer uuid;
+begin
+  -- Saves that change nothing (e.g. an unchanged form) are not history
+  if tg_op = 'UPDATE' and old_data = new_data then
+    return null;
+  end if;
+
+  if tg_table_name = 'schools' then
+    school := (row_data ->> 'id')::uuid;
+    insurer := (row_data ->> 'insurance_company_id')::uuid;
+  else
+    school := (row_data ->> 'school_id')::uuid;
+    select insurance_company_id into insurer from public.schools where id = school;
+  end if;
+
+  insert into public.change_history (
+    table_name, record_id, school_id, insurance_company_id, operation, old_row, new_row, changed_by, actor
+  ) values (
+    tg_table_name,
+    (row_data ->> 'id')::uuid,
+    school,
+    insurer,
+    lower(tg_op),
+    old_data,
+    new_data,
+    auth.uid(),
+    case auth.role() when 'authenticated' then 'insurer' when 'anon' then 'scanner' else 'system' end
+  );
+  return null;
+end;
+$$;
+
+create trigger items_change_history
+  after insert or update or delete on public.items
+  for each row execute function public.record_change_history();
+
+create trigger schools_change_history
+  after insert or update or delete on public.schools
+  for each row execute function public.record_change_history();
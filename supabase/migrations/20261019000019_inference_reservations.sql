@@ -0,0 +1,91 @@
+-- Limits and budgets are checked and reserved in one step. Counting finished
+-- runs let parallel requests (and background jobs) all pass the check before
+-- any of them was recorded. Now a run row is inserted as 'pending' before the
+-- model is called, under per-school and per-caller locks, and the function
+-- fills it in once the call finishes.
+
+alter table public.inference_runs
+  -- Existing rows are finished runs
+  add column if not exists status text not null default 'completed' check (status in ('pending', 'completed'));
+
+-- Pending rows hold an estimate of their cost so in-flight runs count against
+-- the budget; finished runs overwrite it with the real figure. A run whose
+-- worker died keeps its estimate, erring on the side of the budget.
+create or replace function public.reserve_inference_run(
+  p_school_id uuid,
+  p_insurer_id uuid,
+  p_caller_id text,
+  p_provider text,
+  p_model text,
+  p_prompt_version text,
+  p_scan_mode text,
+  p_image_count integer,
+  p_retry_count integer,
+  p_school_rate_limit integer,
+  p_caller_rate_limit integer,
+  p_school_daily_quota integer,
+  p_caller_daily_quota integer
+)
+returns table (run_id uuid, error_code text, error_message text, retry_after_seconds integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  now_utc timestamp := now() at time zone 'utc';
+  day_start timestamptz := date_trunc('day', now_utc) at time zone 'utc';
+  month_start timestamptz := date_trunc('month', now_utc) at time zone 'utc';
+  to_midnight integer := ceil(extract(epoch from (day_start + interval '1 day' - now())))::integer;
+  budget numeric;
+  spent numeric;
+  reserved_cost numeric;
+  new_id uuid;
+begin
+  -- Always school first, then caller, so two requests never wait on each other in a cycle
+  perform pg_advisory_xact_lock(hashtext('inference-school:' || p_school_id::text));
+  perform pg_advisory_xact_lock(hashtext('inference-caller:' || p_caller_id));
+
+  select monthly_budget_usd into budget from schools where id = p_school_id;
+  select coalesce(sum(estimated_cost_usd), 0),
+         coalesce(avg(estimated_cost_usd) filter (where status = 'completed' and estimated_cost_usd > 0), 0)
+    into spent, reserved_cost
+    from inference_runs
+    where school_id = p_school_id and created_at >= month_start;
+
+  if budget is not null and spent >= budget then
+    return query select null::uuid, 'budget_exceeded', 'This school has reached its monthly scanning budget',
+      ceil(extract(epoch from (month_start + interval '1 month' - now())))::integer;
+    return;
+  end if;
+  if (select count(*) from inference_runs where school_id = p_school_id and created_at >= day_start) >= p_school_daily_quota then
+    return query select null::uuid, 'quota_exceeded', 'This school has used its daily scan quota', to_midnight;
+    return;
+  end if;
+  if (select count(*) from inference_runs where caller_id = p_caller_id and created_at >= day_start) >= p_caller_daily_quota then
+    return query select null::uuid, 'quota_exceeded', 'This access link has used its daily scan quota', to_midnight;
+    return;
+  end if;
+  if (select count(*) from inference_runs where school_id = p_school_id and created_at >= now() - interval '1 minute') >= p_school_rate_limit then
+    return query select null::uuid, 'rate_limited', 'Too many scans for this school; wait a minute and try again', 60;
+    return;
+  end if;
+  if (select count(*) from inference_runs where caller_id = p_caller_id and created_at >= now() - interval '1 minute') >= p_caller_rate_limit then
+    return query select null::uuid, 'rate_limited', 'Too many scans from this device; wait a minute and try again', 60;
+    return;
+  end if;
+
+  insert into inference_runs (
+    school_id, insurance_company_id, caller_id, provider, model, prompt_version, scan_mode,
+    image_count, latency_ms, retry_count, estimated_cost_usd, status
+  ) values (
+    p_school_id, p_insurer_id, p_caller_id, p_provider, p_model, p_prompt_version, p_scan_mode,
+    p_image_count, 0, p_retry_count, reserved_cost, 'pending'
+  )
+  returning id into new_id;
+
+  return query select new_id, null::text, null::text, null::integer;
+end;
+$$;
+
+-- Only the groq-inference function (service role) reserves runs
+revoke execute on function public.reserve_inference_run from public, anon, authenticated;
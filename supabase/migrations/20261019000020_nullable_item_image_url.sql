@@ -0,0 +1,5 @@
+-- Items saved since photos moved to storage have no data URL, and the
+-- migrate-item-images function clears it once a photo is moved.
+
+alter table public.items
+  alter column image_url drop not null;
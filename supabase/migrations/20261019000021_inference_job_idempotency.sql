@@ -0,0 +1,10 @@
+-- Scanners retry a job submit that timed out. The retry carries the same
+-- idempotency key, so it gets the job the first attempt created instead of
+-- starting (and paying for) a second analysis.
+
+alter table public.inference_jobs
+  add column if not exists idempotency_key text;
+
+create unique index if not exists inference_jobs_idempotency_key_idx
+  on public.inference_jobs (school_id, idempotency_key)
+  where idempotency_key is not null;
@@ -0,0 +1,28 @@
+-- The scanner read every insurer's depreciation schedules through an anon
+-- policy. It now gets only the schedules of the insurer of the school whose
+-- admin access key it holds.
+
+drop policy if exists "Anyone can read depreciation schedules" on public.depreciation_schedules;
+
+create or replace function public.scanner_depreciation_schedules(p_admin_access_key text)
+returns table (
+  id uuid,
+  category text,
+  method text,
+  useful_life_years numeric,
+  salvage_percent numeric,
+  condition_factors jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d.id, d.category, d.method, d.useful_life_years, d.salvage_percent, d.condition_factors
+    from depreciation_schedules d
+    join schools s on s.insurance_company_id = d.insurance_company_id
+    where s.admin_access_key = p_admin_access_key;
+$$;
+
+revoke execute on function public.scanner_depreciation_schedules from public;
+grant execute on function public.scanner_depreciation_schedules to anon, authenticated;
@@ -0,0 +1,74 @@
+-- The scanner could read every school's buildings and rooms and add them to
+-- any school. It now goes through functions that take the school's admin
+-- access key and only touch that school's locations.
+
+drop policy if exists "Scanner can read buildings" on public.buildings;
+drop policy if exists "Scanner can add buildings" on public.buildings;
+drop policy if exists "Scanner can read rooms" on public.rooms;
+drop policy if exists "Scanner can add rooms" on public.rooms;
+
+-- Buildings of the school, by name, each with its rooms as [{id, name}]
+create or replace function public.scanner_buildings(p_admin_access_key text)
+returns table (id uuid, name text, rooms jsonb)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select b.id, b.name,
+         coalesce((
+           select jsonb_agg(jsonb_build_object('id', r.id, 'name', r.name) order by r.name)
+             from rooms r
+             where r.building_id = b.id
+         ), '[]'::jsonb)
+    from buildings b
+    join schools s on s.id = b.school_id
+    where s.admin_access_key = p_admin_access_key
+    order by b.name;
+$$;
+
+create or replace function public.scanner_add_building(p_admin_access_key text, p_name text)
+returns table (id uuid, name text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  school uuid;
+begin
+  select s.id into school from schools s where s.admin_access_key = p_admin_access_key;
+  if school is null then
+    raise exception 'Invalid admin access key' using errcode = '42501';
+  end if;
+  return query insert into buildings (school_id, name) values (school, p_name)
+    returning buildings.id, buildings.name;
+end;
+$$;
+
+create or replace function public.scanner_add_room(p_admin_access_key text, p_building_id uuid, p_name text)
+returns table (id uuid, name text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1
+    from buildings b
+    join schools s on s.id = b.school_id
+    where b.id = p_building_id
+      and s.admin_access_key = p_admin_access_key
+  ) then
+    raise exception 'Building not found for this school' using errcode = '42501';
+  end if;
+  return query insert into rooms (building_id, name) values (p_building_id, p_name)
+    returning rooms.id, rooms.name;
+end;
+$$;
+
+revoke execute on function public.scanner_buildings from public;
+revoke execute on function public.scanner_add_building from public;
+revoke execute on function public.scanner_add_room from public;
+grant execute on function public.scanner_buildings to anon, authenticated;
+grant execute on function public.scanner_add_building to anon, authenticated;
+grant execute on function public.scanner_add_room to anon, authenticated;
@@ -0,0 +1,67 @@
+-- The scanner could upload into any school's folder of the item-images
+-- bucket. Now it first asks for object paths with its school's admin access
+-- key; the function records them as upload grants, and the storage policy
+-- only accepts uploads to a granted, unexpired path.
+
+create table if not exists public.item_image_upload_grants (
+  object_path text primary key,
+  school_id uuid not null references public.schools (id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '1 hour'
+);
+
+-- Only reached through the functions below
+alter table public.item_image_upload_grants enable row level security;
+
+-- A fresh photo and thumbnail path under the school's folder
+create or replace function public.scanner_reserve_image_paths(p_admin_access_key text)
+returns table (image_path text, thumbnail_path text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  school uuid;
+  base text;
+begin
+  select s.id into school from schools s where s.admin_access_key = p_admin_access_key;
+  if school is null then
+    raise exception 'Invalid admin access key' using errcode = '42501';
+  end if;
+  delete from item_image_upload_grants where school_id = school and expires_at < now();
+
+  base := school::text || '/' || gen_random_uuid()::text;
+  insert into item_image_upload_grants (object_path, school_id)
+  values (base || '.jpg', school), (base || '_thumb.jpg', school);
+  return query select base || '.jpg', base || '_thumb.jpg';
+end;
+$$;
+
+create or replace function public.item_image_upload_granted(p_object_path text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from item_image_upload_grants
+    where object_path = p_object_path
+      and expires_at >= now()
+  );
+$$;
+
+revoke execute on function public.scanner_reserve_image_paths from public;
+revoke execute on function public.item_image_upload_granted from public;
+grant execute on function public.scanner_reserve_image_paths to anon, authenticated;
+grant execute on function public.item_image_upload_granted to anon, authenticated;
+
+drop policy if exists "Scanner can upload item images" on storage.objects;
+
+create policy "Scanner can upload item images to granted paths"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (
+    bucket_id = 'item-images'
+    and public.item_image_upload_granted(name)
+  );
@@ -0,0 +1,85 @@
+-- Fixes to change history:
+--   * school snapshots no longer carry the admin access key, and existing
+--     ones are scrubbed of it;
+--   * items deleted along with their school are logged with its insurer.
+--     They are now deleted just before the school, while it can still be
+--     looked up, instead of by the cascade after it is gone. Rows already
+--     logged without an insurer take it from the school's own delete entry.
+
+create or replace function public.record_change_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_data jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) - 'image_url' - 'admin_access_key' end;
+  new_data jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) - 'image_url' - 'admin_access_key' end;
+  row_data jsonb := coalesce(new_data, old_data);
+  school uuid;
+  insurer uuid;
+begin
+  -- Saves that change nothing (e.g. an unchanged form) are not history
+  if tg_op = 'UPDATE' and old_data = new_data then
+    return null;
+  end if;
+
+  if tg_table_name = 'schools' then
+    school := (row_data ->> 'id')::uuid;
+    insurer := (row_data ->> 'insurance_company_id')::uuid;
+  else
+    school := (row_data ->> 'school_id')::uuid;
+    select insurance_company_id into insurer from public.schools where id = school;
+  end if;
+
+  insert into public.change_history (
+    table_name, record_id, school_id, insurance_company_id, operation, old_row, new_row, changed_by, actor
+  ) values (
+    tg_table_name,
+    (row_data ->> 'id')::uuid,
+    school,
+    insurer,
+    lower(tg_op),
+    old_data,
+    new_data,
+    auth.uid(),
+    case auth.role() when 'authenticated' then 'insurer' when 'anon' then 'scanner' else 'system' end
+  );
+  return null;
+end;
+$$;
+
+create or replace function public.delete_school_items()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.items where school_id = old.id;
+  return old;
+end;
+$$;
+
+create trigger schools_delete_items_first
+  before delete on public.schools
+  for each row execute function public.delete_school_items();
+
+-- A one-off correction of what was logged, not an edit of what happened
+alter table public.change_history disable trigger change_history_append_only;
+
+update public.change_history
+set old_row = old_row - 'admin_access_key',
+    new_row = new_row - 'admin_access_key'
+where table_name = 'schools';
+
+update public.change_history items_entry
+set insurance_company_id = school_entry.insurance_company_id
+from public.change_history school_entry
+where items_entry.table_name = 'items'
+  and items_entry.insurance_company_id is null
+  and school_entry.table_name = 'schools'
+  and school_entry.operation = 'delete'
+  and school_entry.record_id = items_entry.school_id;
+
+alter table public.change_history enable trigger change_history_append_only;
@@ -0,0 +1,50 @@
+-- The scanner edits items it saved earlier without a session. Direct updates
+-- either matched nothing under RLS or, with an open policy, could reach any
+-- school's items. It now goes through a function that takes the school's
+-- admin access key and only updates that school's items.
+
+-- Applies the given columns of p_changes (the rest are left as they are) and
+-- returns whether an item of the key's school was updated
+create or replace function public.scanner_update_item(p_admin_access_key text, p_item_id uuid, p_changes jsonb)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  school uuid;
+  room uuid := (p_changes ->> 'room_id')::uuid;
+begin
+  select s.id into school from schools s where s.admin_access_key = p_admin_access_key;
+  if school is null then
+    raise exception 'Invalid admin access key' using errcode = '42501';
+  end if;
+  if room is not null and not exists (
+    select 1
+    from rooms r
+    join buildings b on b.id = r.building_id
+    where r.id = room
+      and b.school_id = school
+  ) then
+    raise exception 'Room not found for this school' using errcode = '42501';
+  end if;
+
+  update items set
+    name = case when p_changes ? 'name' then p_changes ->> 'name' else items.name end,
+    quantity = case when p_changes ? 'quantity' then (p_changes ->> 'quantity')::integer else items.quantity end,
+    quantity_source = case when p_changes ? 'quantity_source' then p_changes ->> 'quantity_source' else items.quantity_source end,
+    estimated_value = case when p_changes ? 'estimated_value' then (p_changes ->> 'estimated_value')::numeric else items.estimated_value end,
+    value_source = case when p_changes ? 'value_source' then p_changes ->> 'value_source' else items.value_source end,
+    actual_cash_value = case when p_changes ? 'actual_cash_value' then (p_changes ->> 'actual_cash_value')::numeric else items.actual_cash_value end,
+    estimated_loss = case when p_changes ? 'estimated_loss' then (p_changes ->> 'estimated_loss')::numeric else items.estimated_loss end,
+    category = case when p_changes ? 'category' then p_changes ->> 'category' else items.category end,
+    room_id = case when p_changes ? 'room_id' then room else items.room_id end,
+    notes = case when p_changes ? 'notes' then p_changes ->> 'notes' else items.notes end
+  where items.id = p_item_id
+    and items.school_id = school;
+  return found;
+end;
+$$;
+
+revoke execute on function public.scanner_update_item from public;
+grant execute on function public.scanner_update_item to anon, authenticated;
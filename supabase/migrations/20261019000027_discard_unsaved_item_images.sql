@@ -0,0 +1,35 @@
+-- Photos are uploaded before their item rows are saved. When the save fails,
+-- the scanner removes what it uploaded: it may read and delete objects at
+-- paths granted to it (see item_image_upload_grants) that no item or item
+-- image row uses yet. Storage needs both permissions to remove an object.
+
+create or replace function public.item_image_upload_unsaved(p_object_path text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.item_image_upload_granted(p_object_path)
+    and not exists (select 1 from items where image_path = p_object_path or thumbnail_path = p_object_path)
+    and not exists (select 1 from item_images where image_path = p_object_path or thumbnail_path = p_object_path);
+$$;
+
+revoke execute on function public.item_image_upload_unsaved from public;
+grant execute on function public.item_image_upload_unsaved to anon, authenticated;
+
+create policy "Scanner can read its unsaved item image uploads"
+  on storage.objects for select
+  to anon, authenticated
+  using (
+    bucket_id = 'item-images'
+    and public.item_image_upload_unsaved(name)
+  );
+
+create policy "Scanner can remove its unsaved item image uploads"
+  on storage.objects for delete
+  to anon, authenticated
+  using (
+    bucket_id = 'item-images'
+    and public.item_image_upload_unsaved(name)
+  );